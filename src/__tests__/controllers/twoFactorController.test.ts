@@ -0,0 +1,159 @@
+import mongoose from 'mongoose';
+import { Request, Response } from 'express';
+import User from '../../models/User';
+import Session from '../../models/Session';
+import LoginAttempt from '../../models/LoginAttempt';
+import { AuthRequest } from '../../middleware/auth';
+import { disableTwoFactor, regenerateRecoveryCodes, verifyTwoFactorLogin } from '../../controllers/twoFactorController';
+import { generateTotp, generateTotpSecret, totpTimeStep } from '../../utils/totp';
+import { signTwoFactorChallenge } from '../../utils/tokens';
+
+const mockResponse = () => {
+    const res = {} as Response & { status: jest.Mock; json: jest.Mock; set: jest.Mock };
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    res.set = jest.fn().mockReturnValue(res);
+    return res;
+};
+
+// What findById(...).select(...) resolves to, whether or not .lean() is chained
+const queryOf = (doc: unknown) => {
+    const query: any = Promise.resolve(doc);
+    query.select = () => query;
+    query.lean = () => query;
+    return query;
+};
+
+const secret = generateTotpSecret();
+
+// The middle of a time step, so a test never straddles two codes
+const NOW = Math.floor(Date.now() / 30000) * 30000 + 15000;
+
+const userWithTwoFactor = (lastUsedStep?: number) => {
+    const user = new User({
+        _id: new mongoose.Types.ObjectId(),
+        email: 'candidate@example.com',
+        twoFactor: { enabled: true, secret, recoveryCodes: [], lastUsedStep }
+    });
+    jest.spyOn(User, 'findById').mockReturnValue(queryOf(user));
+    jest.spyOn(user, 'comparePassword').mockResolvedValue(true);
+    jest.spyOn(user, 'save').mockResolvedValue(user);
+    return user;
+};
+
+const signedInRequest = (user: InstanceType<typeof User>, body: Record<string, unknown>) => ({
+    body,
+    ip: '203.0.113.7',
+    get: () => 'jest',
+    user: { kind: 'user', id: user.id, sid: 's1' }
+}) as unknown as AuthRequest;
+
+beforeAll(() => {
+    process.env.JWT_SECRET = 'test-secret-that-is-long-enough-for-hs256';
+});
+
+beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    jest.spyOn(LoginAttempt, 'findOne').mockResolvedValue(null);
+    jest.spyOn(LoginAttempt, 'deleteOne').mockResolvedValue({ deletedCount: 0 } as any);
+    jest.spyOn(LoginAttempt, 'findOneAndUpdate').mockResolvedValue(new LoginAttempt({ failures: 1 }));
+    jest.spyOn(Session.prototype, 'save').mockImplementation(function (this: any) {
+        return Promise.resolve(this);
+    });
+});
+
+describe('verifyTwoFactorLogin', () => {
+    const loginRequest = (user: InstanceType<typeof User>, code: string) => ({
+        body: { challengeToken: signTwoFactorChallenge({ id: user.id, accountType: 'User' }), code },
+        ip: '203.0.113.7',
+        get: () => 'jest'
+    }) as unknown as Request;
+
+    it('signs in with a fresh code and records its step together with the challenge', async () => {
+        const user = userWithTwoFactor();
+        const updateOne = jest.spyOn(User, 'updateOne').mockResolvedValue({ modifiedCount: 1 } as any);
+        const res = mockResponse();
+
+        await verifyTwoFactorLogin(loginRequest(user, generateTotp(secret)), res);
+
+        expect(res.status).not.toHaveBeenCalled();
+        expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ message: 'Login successful' }));
+        const [filter, update] = updateOne.mock.calls[0] as any[];
+        expect(filter).toMatchObject({ _id: user._id, 'twoFactor.lastUsedStep': { $not: { $gte: totpTimeStep() } } });
+        expect(update.$set).toMatchObject({
+            'twoFactor.lastUsedStep': totpTimeStep(),
+            'twoFactor.lastChallengeIssuedAt': expect.any(Date)
+        });
+    });
+
+    it('rejects a code that was already accepted', async () => {
+        const user = userWithTwoFactor(totpTimeStep());
+        const updateOne = jest.spyOn(User, 'updateOne');
+        const res = mockResponse();
+
+        await verifyTwoFactorLogin(loginRequest(user, generateTotp(secret)), res);
+
+        expect(res.status).toHaveBeenCalledWith(401);
+        expect(res.json).toHaveBeenCalledWith({ message: 'Invalid verification code' });
+        expect(updateOne).not.toHaveBeenCalled();
+    });
+
+    it('rejects a challenge that was already used', async () => {
+        const user = userWithTwoFactor();
+        jest.spyOn(User, 'updateOne').mockResolvedValue({ modifiedCount: 0 } as any);
+        const createSession = jest.spyOn(Session.prototype, 'save');
+        const res = mockResponse();
+
+        await verifyTwoFactorLogin(loginRequest(user, generateTotp(secret)), res);
+
+        expect(res.status).toHaveBeenCalledWith(401);
+        expect(res.json).toHaveBeenCalledWith({ message: 'Invalid or expired challenge token' });
+        expect(createSession).not.toHaveBeenCalled();
+    });
+});
+
+describe('disableTwoFactor', () => {
+    it('turns two-factor off with a fresh code', async () => {
+        const user = userWithTwoFactor(totpTimeStep() - 2);
+        jest.spyOn(User, 'updateOne').mockResolvedValue({ modifiedCount: 1 } as any);
+        const res = mockResponse();
+
+        await disableTwoFactor(signedInRequest(user, { password: 'secret', code: generateTotp(secret) }), res);
+
+        expect(res.json).toHaveBeenCalledWith({ message: 'Two-factor authentication disabled' });
+        expect(user.twoFactor?.enabled).toBe(false);
+    });
+
+    it('rejects a code that was already accepted', async () => {
+        const user = userWithTwoFactor(totpTimeStep());
+        const res = mockResponse();
+
+        await disableTwoFactor(signedInRequest(user, { password: 'secret', code: generateTotp(secret) }), res);
+
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(user.save).not.toHaveBeenCalled();
+    });
+
+    it('rejects a code a concurrent request used first', async () => {
+        const user = userWithTwoFactor();
+        jest.spyOn(User, 'updateOne').mockResolvedValue({ modifiedCount: 0 } as any);
+        const res = mockResponse();
+
+        await disableTwoFactor(signedInRequest(user, { password: 'secret', code: generateTotp(secret) }), res);
+
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(user.save).not.toHaveBeenCalled();
+    });
+});
+
+describe('regenerateRecoveryCodes', () => {
+    it('rejects a code that was already accepted', async () => {
+        const user = userWithTwoFactor(totpTimeStep());
+        const res = mockResponse();
+
+        await regenerateRecoveryCodes(signedInRequest(user, { code: generateTotp(secret) }), res);
+
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(user.save).not.toHaveBeenCalled();
+    });
+});
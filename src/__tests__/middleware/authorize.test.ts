@@ -0,0 +1,67 @@
+import mongoose from 'mongoose';
+import { Response } from 'express';
+import Job from '../../models/Job';
+import JobTemplate from '../../models/JobTemplate';
+import { AuthRequest } from '../../middleware/auth';
+import { authorize, loadById } from '../../middleware/authorize';
+
+const mockResponse = () => {
+    const res = {} as Response & { status: jest.Mock; json: jest.Mock };
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    return res;
+};
+
+const companyId = new mongoose.Types.ObjectId();
+
+const companyRequest = (params: Record<string, string>) => ({
+    params,
+    company: { kind: 'company', id: companyId.toString(), sid: 's1', role: 'owner' }
+}) as unknown as AuthRequest;
+
+describe('authorize', () => {
+    it('requires a principal', async () => {
+        const res = mockResponse();
+        const next = jest.fn();
+        await authorize('update', loadById(Job, 'id'))({ params: { id: 'x' } } as unknown as AuthRequest, res, next);
+        expect(res.status).toHaveBeenCalledWith(401);
+        expect(next).not.toHaveBeenCalled();
+    });
+
+    it('rejects malformed ids with a 400 naming the model', async () => {
+        const res = mockResponse();
+        const next = jest.fn();
+        await authorize('update', loadById(JobTemplate, 'id'))(companyRequest({ id: 'not-an-id' }), res, next);
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(res.json).toHaveBeenCalledWith({ message: 'Invalid job template ID format' });
+        expect(next).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 when the resource does not exist', async () => {
+        const res = mockResponse();
+        const next = jest.fn();
+        const load = async () => ({ resource: null });
+        await authorize('update', load)(companyRequest({}), res, next);
+        expect(res.status).toHaveBeenCalledWith(404);
+        expect(next).not.toHaveBeenCalled();
+    });
+
+    it('returns 403 when the policy denies the action', async () => {
+        const res = mockResponse();
+        const next = jest.fn();
+        const job = new Job({ company: new mongoose.Types.ObjectId() });
+        await authorize('update', async () => ({ resource: job }))(companyRequest({}), res, next);
+        expect(res.status).toHaveBeenCalledWith(403);
+        expect(next).not.toHaveBeenCalled();
+    });
+
+    it('hands the resource to the controller when allowed', async () => {
+        const res = mockResponse();
+        const next = jest.fn();
+        const req = companyRequest({});
+        const job = new Job({ company: companyId });
+        await authorize('update', async () => ({ resource: job }))(req, res, next);
+        expect(next).toHaveBeenCalled();
+        expect(req.resource).toBe(job);
+    });
+});
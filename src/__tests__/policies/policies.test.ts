@@ -0,0 +1,135 @@
+import mongoose from 'mongoose';
+import Job from '../../models/Job';
+import JobTemplate from '../../models/JobTemplate';
+import Application from '../../models/Application';
+import Chat from '../../models/Chat';
+import Company from '../../models/Company';
+import { can, AdminPrincipal, CompanyPrincipal, UserPrincipal } from '../../policies';
+import { jobPolicy } from '../../policies/jobPolicy';
+import { jobTemplatePolicy } from '../../policies/jobTemplatePolicy';
+import { applicationPolicy } from '../../policies/applicationPolicy';
+import { chatPolicy } from '../../policies/chatPolicy';
+
+const newId = () => new mongoose.Types.ObjectId();
+
+const companyId = newId();
+const otherCompanyId = newId();
+const userId = newId();
+
+const owner: CompanyPrincipal = { kind: 'company', id: companyId.toString(), sid: 's1', role: 'owner' };
+const otherCompany: CompanyPrincipal = { kind: 'company', id: otherCompanyId.toString(), sid: 's2', role: 'owner' };
+const applicant: UserPrincipal = { kind: 'user', id: userId.toString(), sid: 's3' };
+const otherUser: UserPrincipal = { kind: 'user', id: newId().toString(), sid: 's4' };
+const admin: AdminPrincipal = { kind: 'admin', id: newId().toString(), sid: 's5' };
+
+// A company principal and a user principal can share an id; the kind must still match
+const userWithCompanyId: UserPrincipal = { kind: 'user', id: companyId.toString(), sid: 's6' };
+
+describe('can', () => {
+    const job = new Job({ company: companyId });
+
+    it('denies requests without a principal', () => {
+        expect(can(undefined, 'update', job)).toBe(false);
+    });
+
+    it('dispatches on the model name', () => {
+        expect(can(owner, 'update', job)).toBe(true);
+        expect(can(otherCompany, 'update', job)).toBe(false);
+    });
+
+    it('denies actions the policy does not list', () => {
+        expect(can(owner, 'message', job)).toBe(false);
+    });
+
+    it('denies resources without a policy', () => {
+        const company = new Company({ _id: companyId });
+        expect(can(owner, 'read', company)).toBe(false);
+    });
+
+    it('accepts populated references', () => {
+        const populated = new Job({ company: companyId });
+        populated.company = { _id: companyId } as any;
+        expect(can(owner, 'update', populated)).toBe(true);
+    });
+});
+
+describe('jobPolicy', () => {
+    const job = { company: companyId };
+
+    it.each(['update', 'delete', 'duplicate', 'viewApplications'] as const)('lets only the owning company %s', action => {
+        const rule = jobPolicy[action]!;
+        expect(rule(owner, job)).toBe(true);
+        expect(rule(otherCompany, job)).toBe(false);
+        expect(rule(applicant, job)).toBe(false);
+        expect(rule(userWithCompanyId, job)).toBe(false);
+        expect(rule(admin, job)).toBe(false);
+    });
+
+    it('lets the owning company and admins view history', () => {
+        expect(jobPolicy.viewHistory!(owner, job)).toBe(true);
+        expect(jobPolicy.viewHistory!(admin, job)).toBe(true);
+        expect(jobPolicy.viewHistory!(otherCompany, job)).toBe(false);
+        expect(jobPolicy.viewHistory!(applicant, job)).toBe(false);
+    });
+
+    it('lets only the owning company and admins read unpublished jobs', () => {
+        expect(jobPolicy.read!(owner, job)).toBe(true);
+        expect(jobPolicy.read!(admin, job)).toBe(true);
+        expect(jobPolicy.read!(otherCompany, job)).toBe(false);
+        expect(jobPolicy.read!(applicant, job)).toBe(false);
+    });
+});
+
+describe('jobTemplatePolicy', () => {
+    const template = new JobTemplate({ company: companyId, name: 'Backend' });
+
+    it.each(['read', 'update', 'delete'] as const)('lets only the owning company %s', action => {
+        expect(can(owner, action, template)).toBe(true);
+        expect(can(otherCompany, action, template)).toBe(false);
+        expect(can(applicant, action, template)).toBe(false);
+        expect(can(admin, action, template)).toBe(false);
+    });
+
+    it('does not allow duplicating templates', () => {
+        expect(jobTemplatePolicy.duplicate).toBeUndefined();
+    });
+});
+
+describe('applicationPolicy', () => {
+    const application = new Application({ job: newId(), user: userId, company: companyId });
+
+    it.each(['read', 'openChat'] as const)('lets the applicant and the hiring company %s', action => {
+        expect(can(applicant, action, application)).toBe(true);
+        expect(can(owner, action, application)).toBe(true);
+        expect(can(otherUser, action, application)).toBe(false);
+        expect(can(otherCompany, action, application)).toBe(false);
+        expect(can(admin, action, application)).toBe(false);
+    });
+
+    it.each(['updateStatus', 'downloadCv'] as const)('lets only the hiring company %s', action => {
+        expect(can(owner, action, application)).toBe(true);
+        expect(can(applicant, action, application)).toBe(false);
+        expect(can(otherCompany, action, application)).toBe(false);
+    });
+
+    it('checks plain objects as well as documents', () => {
+        expect(applicationPolicy.read!(applicant, { user: userId, company: companyId })).toBe(true);
+        expect(applicationPolicy.updateStatus!(userWithCompanyId, { user: userId, company: companyId })).toBe(false);
+    });
+});
+
+describe('chatPolicy', () => {
+    const chat = new Chat({ userId, companyId });
+
+    it.each(['read', 'message'] as const)('lets only the participants %s', action => {
+        expect(can(applicant, action, chat)).toBe(true);
+        expect(can(owner, action, chat)).toBe(true);
+        expect(can(otherUser, action, chat)).toBe(false);
+        expect(can(otherCompany, action, chat)).toBe(false);
+        expect(can(admin, action, chat)).toBe(false);
+    });
+
+    it('does not allow deleting chats', () => {
+        expect(chatPolicy.delete).toBeUndefined();
+    });
+});
@@ -0,0 +1,2 @@
+// Shared test setup, loaded by jest before each test file (see "jest" in package.json).
+// Unit tests build documents in memory and never connect to MongoDB.
@@ -0,0 +1,48 @@
+import { csvToObjects, parseCsv } from '../../utils/csv';
+
+describe('parseCsv', () => {
+    it('splits rows and fields', () => {
+        expect(parseCsv('a,b,c\n1,2,3\n')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+    });
+
+    it('keeps commas, line breaks and escaped quotes inside quoted fields', () => {
+        expect(parseCsv('title,description\n"Dev, Senior","Line one\nSays ""hi"""\n')).toEqual([
+            ['title', 'description'],
+            ['Dev, Senior', 'Line one\nSays "hi"']
+        ]);
+    });
+
+    it('treats a quote in the middle of a field as text', () => {
+        expect(parseCsv('5" screen,x')).toEqual([['5" screen', 'x']]);
+    });
+
+    it('accepts CRLF and CR line endings', () => {
+        expect(parseCsv('a,b\r\n1,2\r3,4')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+    });
+
+    it('keeps CRLF inside quoted fields', () => {
+        expect(parseCsv('"one\r\ntwo",x\r\n')).toEqual([['one\r\ntwo', 'x']]);
+    });
+
+    it('drops the byte order mark Excel writes', () => {
+        expect(parseCsv('\uFEFFtitle,type\nDev,Remote')).toEqual([['title', 'type'], ['Dev', 'Remote']]);
+    });
+
+    it('skips blank lines and keeps empty fields', () => {
+        expect(parseCsv('a,b\n\n , \n1,\n')).toEqual([['a', 'b'], ['1', '']]);
+    });
+
+    it('throws on an unterminated quoted field', () => {
+        expect(() => parseCsv('title\n"Dev, Senior\n')).toThrow('Unterminated quoted field');
+    });
+});
+
+describe('csvToObjects', () => {
+    it('keys each row by the trimmed header and leaves out empty cells', () => {
+        expect(csvToObjects(' title , type ,salary\nDev, Remote ,\n')).toEqual([{ title: 'Dev', type: 'Remote' }]);
+    });
+
+    it('returns nothing for an empty file', () => {
+        expect(csvToObjects('')).toEqual([]);
+    });
+});
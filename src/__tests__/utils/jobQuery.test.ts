@@ -0,0 +1,66 @@
+import mongoose from 'mongoose';
+import { parseJobQuery } from '../../utils/jobQuery';
+
+const strict = { strict: true };
+
+describe('parseJobQuery (strict)', () => {
+    it('builds the filter, sort and page from valid parameters', () => {
+        const company = new mongoose.Types.ObjectId().toString();
+        const { query, errors } = parseJobQuery({ q: 'node', type: 'remote,Contract', company, limit: '20' }, strict);
+
+        expect(errors).toEqual([]);
+        expect(query!.filter).toMatchObject({
+            status: 'active',
+            $text: { $search: 'node' },
+            type: { $in: ['Remote', 'Contract'] },
+            company: new mongoose.Types.ObjectId(company)
+        });
+        expect(query!.sort).toMatchObject({ score: { $meta: 'textScore' } });
+        expect(query!.limit).toBe(20);
+    });
+
+    it('rejects parameters given more than once', () => {
+        const { query, errors } = parseJobQuery({ type: ['Remote', 'Contract'] }, strict);
+        expect(query).toBeUndefined();
+        expect(errors).toContain('type must be given once as a plain value');
+    });
+
+    it('reports every invalid value', () => {
+        const { errors } = parseJobQuery({ type: 'Astronaut', company: 'acme', sort: 'relevance', limit: '500' }, strict);
+        expect(errors).toEqual(expect.arrayContaining([
+            expect.stringMatching(/^Unknown job type Astronaut/),
+            'company must be a valid company id',
+            'sort=relevance needs a search term (q)',
+            'limit must be at most 100'
+        ]));
+    });
+});
+
+describe('parseJobQuery (lenient)', () => {
+    it('uses the first of repeated parameters', () => {
+        const { query, errors } = parseJobQuery({ type: ['Remote', 'Contract'] });
+        expect(errors).toEqual([]);
+        expect(query!.filter.type).toEqual({ $in: ['Remote'] });
+    });
+
+    it('matches nothing for values that cannot match', () => {
+        const { query, errors } = parseJobQuery({ type: 'Astronaut', company: 'acme' });
+        expect(errors).toEqual([]);
+        expect(query!.filter.type).toEqual({ $in: [] });
+        expect(query!.filter.company).toEqual({ $in: [] });
+    });
+
+    it('falls back to the default sort and caps the limit', () => {
+        const { query, errors } = parseJobQuery({ sort: 'cheapest', limit: '500', page: 'two' });
+        expect(errors).toEqual([]);
+        expect(query!.sort).toMatchObject({ postedAt: -1 });
+        expect(query!.limit).toBe(100);
+        expect(query!.page).toBe(1);
+    });
+
+    it('still reports a missing or too long search term', () => {
+        expect(parseJobQuery({}, { requireText: true }).errors).toEqual(['Search term (q) is required']);
+        expect(parseJobQuery({ q: 'x'.repeat(201) }, { requireText: true }).errors)
+            .toEqual(['q must be at most 200 characters']);
+    });
+});
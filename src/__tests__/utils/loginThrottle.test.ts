@@ -0,0 +1,111 @@
+import mongoose from 'mongoose';
+import LoginAttempt from '../../models/LoginAttempt';
+import { checkLoginAllowed, loginThrottleKey, recordLoginFailure } from '../../utils/loginThrottle';
+
+const ACCOUNT_KEY = loginThrottleKey('User', ' Someone@Example.com ');
+const IP = '203.0.113.7';
+
+const attempt = (fields: Record<string, unknown>) => new LoginAttempt({
+    _id: new mongoose.Types.ObjectId(),
+    lastFailureAt: new Date(),
+    expiresAt: new Date(Date.now() + 15 * 60 * 1000),
+    ...fields
+});
+
+// Answer LoginAttempt.findOne per key: the account's counter and the IP's counter
+const mockAttempts = (account: unknown, ip: unknown = null) =>
+    jest.spyOn(LoginAttempt, 'findOne').mockImplementation(((filter: { key: string }) =>
+        Promise.resolve(filter.key === ACCOUNT_KEY ? account : ip)) as any);
+
+describe('loginThrottleKey', () => {
+    it('normalizes the email', () => {
+        expect(ACCOUNT_KEY).toBe('User:someone@example.com');
+    });
+});
+
+describe('checkLoginAllowed', () => {
+    it('lets the first attempts through', async () => {
+        mockAttempts(null);
+        await expect(checkLoginAllowed(ACCOUNT_KEY, IP)).resolves.toBeNull();
+
+        mockAttempts(attempt({ failures: 2 }));
+        await expect(checkLoginAllowed(ACCOUNT_KEY, IP)).resolves.toBeNull();
+    });
+
+    it('delays attempts after repeated failures, doubling each time', async () => {
+        mockAttempts(attempt({ failures: 3 }));
+        await expect(checkLoginAllowed(ACCOUNT_KEY, IP)).resolves.toMatchObject({ status: 429, retryAfter: 1 });
+
+        mockAttempts(attempt({ failures: 6 }));
+        await expect(checkLoginAllowed(ACCOUNT_KEY, IP)).resolves.toMatchObject({ status: 429, retryAfter: 8 });
+    });
+
+    it('caps the delay', async () => {
+        mockAttempts(attempt({ failures: 9 }));
+        await expect(checkLoginAllowed(ACCOUNT_KEY, IP)).resolves.toMatchObject({ status: 429, retryAfter: 60 });
+    });
+
+    it('allows an attempt once the delay has passed', async () => {
+        mockAttempts(attempt({ failures: 4, lastFailureAt: new Date(Date.now() - 3000) }));
+        await expect(checkLoginAllowed(ACCOUNT_KEY, IP)).resolves.toBeNull();
+    });
+
+    it('blocks a locked account until the lock runs out', async () => {
+        mockAttempts(attempt({ failures: 10, lockedUntil: new Date(Date.now() + 10 * 60 * 1000) }));
+        await expect(checkLoginAllowed(ACCOUNT_KEY, IP)).resolves.toMatchObject({ status: 423, retryAfter: 600 });
+    });
+
+    it('starts counting again after an expired lock', async () => {
+        const expired = attempt({ failures: 10, lockedUntil: new Date(Date.now() - 1000) });
+        mockAttempts(expired);
+        const deleteOne = jest.spyOn(LoginAttempt, 'deleteOne').mockResolvedValue({ deletedCount: 1 } as any);
+
+        await expect(checkLoginAllowed(ACCOUNT_KEY, IP)).resolves.toBeNull();
+        expect(deleteOne).toHaveBeenCalledWith({ _id: expired._id });
+    });
+
+    it('blocks an IP with too many failures across accounts', async () => {
+        mockAttempts(null, attempt({ failures: 50 }));
+        const block = await checkLoginAllowed(ACCOUNT_KEY, IP);
+        expect(block).toMatchObject({ status: 429 });
+        expect(block!.message).toMatch(/this network/);
+
+        mockAttempts(null, attempt({ failures: 49 }));
+        await expect(checkLoginAllowed(ACCOUNT_KEY, IP)).resolves.toBeNull();
+    });
+});
+
+describe('recordLoginFailure', () => {
+    it('counts the failure for the account and the IP', async () => {
+        const findOneAndUpdate = jest.spyOn(LoginAttempt, 'findOneAndUpdate').mockResolvedValue(attempt({ failures: 1 }));
+        const updateOne = jest.spyOn(LoginAttempt, 'updateOne');
+
+        await expect(recordLoginFailure(ACCOUNT_KEY, IP)).resolves.toBeNull();
+
+        const keys = findOneAndUpdate.mock.calls.map(call => (call[0] as { key: string }).key);
+        expect(keys).toEqual([ACCOUNT_KEY, `ip:${IP}`]);
+        expect(updateOne).not.toHaveBeenCalled();
+    });
+
+    it('locks the account on the tenth failure', async () => {
+        const tenth = attempt({ failures: 10 });
+        jest.spyOn(LoginAttempt, 'findOneAndUpdate').mockResolvedValue(tenth);
+        const updateOne = jest.spyOn(LoginAttempt, 'updateOne').mockResolvedValue({ modifiedCount: 1 } as any);
+
+        await expect(recordLoginFailure(ACCOUNT_KEY, IP)).resolves.toMatchObject({ status: 423, retryAfter: 900 });
+        expect(updateOne).toHaveBeenCalledWith(
+            { _id: tenth._id },
+            { $set: { lockedUntil: expect.any(Date), expiresAt: expect.any(Date) } }
+        );
+    });
+
+    it('does not extend an existing lock', async () => {
+        jest.spyOn(LoginAttempt, 'findOneAndUpdate').mockResolvedValue(
+            attempt({ failures: 11, lockedUntil: new Date(Date.now() + 60 * 1000) })
+        );
+        const updateOne = jest.spyOn(LoginAttempt, 'updateOne');
+
+        await expect(recordLoginFailure(ACCOUNT_KEY, IP)).resolves.toBeNull();
+        expect(updateOne).not.toHaveBeenCalled();
+    });
+});
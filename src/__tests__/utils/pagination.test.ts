@@ -0,0 +1,82 @@
+import mongoose from 'mongoose';
+import { afterCursor, cursorPage, encodeCursor, parseCursor, withTiebreaker } from '../../utils/pagination';
+
+const SORT = withTiebreaker({ postedAt: -1 });
+const postedAt = new Date('2024-05-01T12:00:00.000Z');
+const id = new mongoose.Types.ObjectId();
+
+describe('withTiebreaker', () => {
+    it('appends _id in the direction of the last field', () => {
+        expect(withTiebreaker({ postedAt: -1 })).toEqual({ postedAt: -1, _id: -1 });
+        expect(withTiebreaker({ name: 1, _id: -1 })).toEqual({ name: 1, _id: -1 });
+    });
+});
+
+describe('parseCursor', () => {
+    it('leaves page-number listings alone', () => {
+        expect(parseCursor({ page: '2' }, SORT)).toEqual({});
+    });
+
+    it('starts cursor mode with ?pagination=cursor', () => {
+        expect(parseCursor({ pagination: 'cursor', limit: '5' }, SORT)).toEqual({ cursor: { after: null, limit: 5 } });
+    });
+
+    it('caps the limit', () => {
+        expect(parseCursor({ pagination: 'cursor', limit: '1000' }, SORT).cursor!.limit).toBe(100);
+    });
+
+    it('decodes the values a cursor was encoded with', () => {
+        const token = encodeCursor(SORT, [postedAt, id]);
+        const { cursor, error } = parseCursor({ cursor: token }, SORT);
+
+        expect(error).toBeUndefined();
+        expect(cursor!.after).toEqual([postedAt, id]);
+        expect(cursor!.after![0]).toBeInstanceOf(Date);
+        expect(cursor!.after![1]).toBeInstanceOf(mongoose.Types.ObjectId);
+    });
+
+    it('rejects a cursor from a listing with another sort', () => {
+        const token = encodeCursor(withTiebreaker({ 'salary.normalized.min': 1 }), [50000, id]);
+        expect(parseCursor({ cursor: token }, SORT)).toEqual({ error: 'Invalid cursor for this listing' });
+    });
+
+    it('rejects tampered cursors', () => {
+        const forged = Buffer.from(JSON.stringify({ s: 'postedAt:-1,_id:-1', v: [{ $gt: '' }, 'x'] })).toString('base64url');
+        expect(parseCursor({ cursor: forged }, SORT).error).toBe('Invalid cursor for this listing');
+        expect(parseCursor({ cursor: 'not-a-cursor' }, SORT).error).toBe('Invalid cursor for this listing');
+        expect(parseCursor({ cursor: ['a', 'b'] }, SORT).error).toBe('Invalid cursor for this listing');
+    });
+
+    it('does not mix cursor and page pagination', () => {
+        expect(parseCursor({ pagination: 'cursor', page: '2' }, SORT).error).toBe('Use either page or cursor pagination, not both');
+    });
+});
+
+describe('afterCursor', () => {
+    it('continues after the last document in sort order', () => {
+        expect(afterCursor({ status: 'active' }, SORT, [postedAt, id])).toEqual({
+            $and: [
+                { status: 'active' },
+                { $or: [{ postedAt: { $lt: postedAt } }, { postedAt, _id: { $lt: id } }] }
+            ]
+        });
+    });
+
+    it('returns the filter unchanged on the first page', () => {
+        expect(afterCursor({ status: 'active' }, SORT, null)).toEqual({ status: 'active' });
+    });
+});
+
+describe('cursorPage', () => {
+    const docs = [1, 2, 3].map(day => ({ postedAt: new Date(Date.UTC(2024, 4, 4 - day)), _id: new mongoose.Types.ObjectId() }));
+
+    it('has no next cursor on the last page', () => {
+        expect(cursorPage(docs, SORT, 3)).toEqual({ items: docs, nextCursor: null });
+    });
+
+    it('drops the look-ahead document and points the cursor at the last one shown', () => {
+        const { items, nextCursor } = cursorPage(docs, SORT, 2);
+        expect(items).toEqual(docs.slice(0, 2));
+        expect(parseCursor({ cursor: nextCursor }, SORT).cursor!.after).toEqual([docs[1].postedAt, docs[1]._id]);
+    });
+});
@@ -0,0 +1,76 @@
+import mongoose from 'mongoose';
+import Session from '../../models/Session';
+import { hashToken, revokeSessionByRefreshToken, rotateSession } from '../../utils/tokens';
+
+const activeSession = () => new Session({
+    accountId: new mongoose.Types.ObjectId(),
+    accountType: 'User',
+    refreshTokenHash: hashToken('new'),
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000)
+});
+
+describe('rotateSession', () => {
+    beforeAll(() => {
+        process.env.JWT_SECRET = 'test-secret-that-is-long-enough-for-hs256';
+    });
+
+    it('swaps the refresh token in one conditional update', async () => {
+        const findOneAndUpdate = jest.spyOn(Session, 'findOneAndUpdate').mockResolvedValue(activeSession());
+        const updateOne = jest.spyOn(Session, 'updateOne');
+
+        const tokens = await rotateSession('old-token', 'User', { userAgent: 'jest' });
+
+        expect(tokens).not.toBeNull();
+        expect(tokens!.refreshToken).not.toBe('old-token');
+        expect(tokens!.token).toEqual(expect.any(String));
+
+        const [filter, update] = findOneAndUpdate.mock.calls[0] as any[];
+        expect(filter).toEqual({
+            refreshTokenHash: hashToken('old-token'),
+            accountType: 'User',
+            revokedAt: { $exists: false },
+            expiresAt: { $gt: expect.any(Date) }
+        });
+        expect(update.$set).toMatchObject({
+            previousRefreshTokenHash: hashToken('old-token'),
+            refreshTokenHash: hashToken(tokens!.refreshToken),
+            userAgent: 'jest'
+        });
+        expect(updateOne).not.toHaveBeenCalled();
+    });
+
+    it('revokes the session when an already rotated token is presented again', async () => {
+        jest.spyOn(Session, 'findOneAndUpdate').mockResolvedValue(null);
+        const updateOne = jest.spyOn(Session, 'updateOne').mockResolvedValue({ modifiedCount: 1 } as any);
+
+        await expect(rotateSession('rotated-token', 'User')).resolves.toBeNull();
+
+        expect(updateOne).toHaveBeenCalledWith(
+            { previousRefreshTokenHash: hashToken('rotated-token'), accountType: 'User', revokedAt: { $exists: false } },
+            { $set: { revokedAt: expect.any(Date) } }
+        );
+    });
+
+    it('does not look up sessions of another account type', async () => {
+        const findOneAndUpdate = jest.spyOn(Session, 'findOneAndUpdate').mockResolvedValue(null);
+        jest.spyOn(Session, 'updateOne').mockResolvedValue({ modifiedCount: 0 } as any);
+
+        await expect(rotateSession('company-token', 'Company')).resolves.toBeNull();
+        expect((findOneAndUpdate.mock.calls[0] as any[])[0]).toMatchObject({ accountType: 'Company' });
+    });
+});
+
+describe('revokeSessionByRefreshToken', () => {
+    it('reports whether an active session was revoked', async () => {
+        const updateOne = jest.spyOn(Session, 'updateOne').mockResolvedValue({ modifiedCount: 1 } as any);
+
+        await expect(revokeSessionByRefreshToken('token', 'User')).resolves.toBe(true);
+        expect(updateOne).toHaveBeenCalledWith(
+            { refreshTokenHash: hashToken('token'), accountType: 'User', revokedAt: { $exists: false } },
+            { $set: { revokedAt: expect.any(Date) } }
+        );
+
+        updateOne.mockResolvedValue({ modifiedCount: 0 } as any);
+        await expect(revokeSessionByRefreshToken('token', 'User')).resolves.toBe(false);
+    });
+});
@@ -0,0 +1,59 @@
+import { base32Decode, base32Encode, generateTotp, matchTotp, totpTimeStep, verifyTotp } from '../../utils/totp';
+
+// The RFC 6238 test secret, "12345678901234567890" in base32
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+const NOW = 1111111109 * 1000;
+
+describe('base32', () => {
+    it('round-trips bytes', () => {
+        const bytes = Buffer.from([0, 1, 2, 250, 255, 17, 42]);
+        expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('matches the RFC 4648 encoding', () => {
+        expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+        expect(base32Decode('mzxw6ytboi======').toString()).toBe('foobar');
+    });
+
+    it('rejects characters outside the alphabet', () => {
+        expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character');
+    });
+});
+
+describe('generateTotp', () => {
+    it('matches the RFC 6238 SHA-1 test vectors (last six digits)', () => {
+        expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082');
+        expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+        expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toBe('005924');
+    });
+});
+
+describe('matchTotp', () => {
+    beforeEach(() => {
+        jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    });
+
+    it('returns the time step of the current code', () => {
+        expect(matchTotp(RFC_SECRET, generateTotp(RFC_SECRET, NOW))).toBe(totpTimeStep(NOW));
+    });
+
+    it('accepts the neighbouring codes for clock drift, reporting their own step', () => {
+        expect(matchTotp(RFC_SECRET, generateTotp(RFC_SECRET, NOW - 30 * 1000))).toBe(totpTimeStep(NOW) - 1);
+        expect(matchTotp(RFC_SECRET, generateTotp(RFC_SECRET, NOW + 30 * 1000))).toBe(totpTimeStep(NOW) + 1);
+    });
+
+    it('rejects codes outside the window', () => {
+        expect(matchTotp(RFC_SECRET, generateTotp(RFC_SECRET, NOW - 90 * 1000))).toBeNull();
+    });
+
+    it('ignores spaces within the code', () => {
+        expect(matchTotp(RFC_SECRET, '081 804')).toBe(totpTimeStep(NOW));
+    });
+
+    it('rejects malformed codes', () => {
+        expect(matchTotp(RFC_SECRET, '12345')).toBeNull();
+        expect(matchTotp(RFC_SECRET, 'abcdef')).toBeNull();
+        expect(matchTotp(RFC_SECRET, { code: '081804' })).toBeNull();
+        expect(verifyTotp(RFC_SECRET, undefined)).toBe(false);
+    });
+});
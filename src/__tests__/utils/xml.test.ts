@@ -0,0 +1,44 @@
+import { cdataElement, element, escapeXml } from '../../utils/xml';
+
+describe('escapeXml', () => {
+    it('escapes markup characters', () => {
+        expect(escapeXml(`<a href="x">Tom & Jerry's</a>`))
+            .toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;');
+    });
+
+    it('escapes ampersands first, so entity-like text stays literal', () => {
+        expect(escapeXml('&lt;')).toBe('&amp;lt;');
+    });
+
+    it('drops characters XML does not allow but keeps tabs and line breaks', () => {
+        expect(escapeXml('a\u0000b\u0008c\u001Fd\uFFFE\te\r\nf')).toBe('abcd\te\r\nf');
+    });
+
+    it('writes null and undefined as empty text', () => {
+        expect(escapeXml(null)).toBe('');
+        expect(escapeXml(undefined)).toBe('');
+        expect(escapeXml(42)).toBe('42');
+    });
+});
+
+describe('element', () => {
+    it('escapes the text and attributes', () => {
+        expect(element('link', 'a&b', { rel: '"self"' })).toBe('<link rel="&quot;self&quot;">a&amp;b</link>');
+    });
+
+    it('leaves out empty values', () => {
+        expect(element('salary', '')).toBe('');
+        expect(element('salary', null)).toBe('');
+        expect(element('count', 0)).toBe('<count>0</count>');
+    });
+});
+
+describe('cdataElement', () => {
+    it('splits a CDATA terminator inside the text', () => {
+        expect(cdataElement('description', 'a]]>b<i>')).toBe('<description><![CDATA[a]]]]><![CDATA[>b<i>]]></description>');
+    });
+
+    it('drops characters XML does not allow', () => {
+        expect(cdataElement('title', 'Dev\u000B')).toBe('<title><![CDATA[Dev]]></title>');
+    });
+});
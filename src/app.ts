@@ -1,16 +1,41 @@
+// Load .env before any module reads its configuration at import time
+import 'dotenv/config';
 import express from 'express';
 import mongoose from 'mongoose';
 import cors from 'cors';
-import dotenv from 'dotenv';
 import authRoutes from './routes/authRoutes';
 import userRoutes from './routes/userRoutes';
 import jobRoutes from './routes/jobRoutes';
+import jobTemplateRoutes from './routes/jobTemplateRoutes';
 import applicationRoutes from './routes/applicationRoutes';
 import companyRoutes from './routes/companyRoutes';
 import chatRoutes from './routes/chatRoutes';
+import adminRoutes from './routes/adminRoutes';
+import reportRoutes from './routes/reportRoutes';
+import feedRoutes from './routes/feedRoutes';
+import mockOidcRoutes from './routes/mockOidcRoutes';
 import { performanceLogger } from './middleware/performance';
+import { ensureBootstrapAdmin } from './utils/adminBootstrap';
+import { isMockOidcEnabled } from './config/oidc';
+import { initSigningKeys } from './utils/signingKeys';
+import { initExchangeRates } from './config/exchangeRates';
+import { startScheduler } from './scheduler';
 
-dotenv.config();
+// Refuse to start without proper token signing keys
+try {
+  initSigningKeys();
+} catch (error) {
+  console.error('Invalid JWT key configuration:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+
+// Salary filters and normalization need a valid exchange-rate table
+try {
+  initExchangeRates();
+} catch (error) {
+  console.error('Invalid exchange rate configuration:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
 
 export const app = express();
 app.use(cors());
@@ -21,9 +46,18 @@ app.use(performanceLogger);
 app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/jobs', jobRoutes);
+app.use('/api/job-templates', jobTemplateRoutes);
 app.use('/api/applications', applicationRoutes);
 app.use('/api/companies', companyRoutes);
 app.use('/api/chats', chatRoutes);
+app.use('/api/reports', reportRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/feeds', feedRoutes);
+
+// Local identity provider for development and tests
+if (isMockOidcEnabled()) {
+  app.use('/mock-oidc', mockOidcRoutes);
+}
 //example
 app.get("/", (_req, res) => {
   res.send("Job Board Backend API is running!");
@@ -32,7 +66,9 @@ app.get("/", (_req, res) => {
 const PORT = process.env.PORT || 5000;
 
 mongoose.connect(process.env.MONGODB_URI || "", { })
-  .then(() => {
+  .then(async () => {
+    await ensureBootstrapAdmin();
+    startScheduler();
     app.listen(PORT, () => {
       console.log(`Server running on port ${PORT}`);
     });
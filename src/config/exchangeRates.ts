@@ -0,0 +1,90 @@
+import fs from 'fs';
+import crypto from 'crypto';
+
+// Exchange rates used to compare salaries posted in different currencies.
+// Each rate is the value of one unit of the currency in the base currency. Override the
+// built-in table with a JSON file ({ "EUR": 1.08, ... }) named in EXCHANGE_RATES_FILE.
+
+const DEFAULT_RATES_TO_USD: Record<string, number> = {
+    USD: 1,
+    EUR: 1.08,
+    GBP: 1.27,
+    CAD: 0.73,
+    AUD: 0.66,
+    CHF: 1.12,
+    JPY: 0.0067,
+    INR: 0.012,
+    BRL: 0.18,
+    MXN: 0.055,
+    ARS: 0.0011
+};
+
+export interface ExchangeRateTable {
+    baseCurrency: string;
+    rates: Readonly<Record<string, number>>;
+    // Changes whenever the table changes, so stored normalized salaries can be refreshed
+    version: string;
+}
+
+const readRatesFile = (file: string): Record<string, number> => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+        throw new Error(`Cannot read EXCHANGE_RATES_FILE ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error(`EXCHANGE_RATES_FILE ${file} must contain an object of currency rates`);
+    }
+    return Object.fromEntries(
+        Object.entries(parsed).map(([currency, rate]) => [currency.toUpperCase(), Number(rate)])
+    );
+};
+
+// Build and check the rate table. Throws so the server refuses to start with a broken setup.
+export const parseExchangeRates = (env: NodeJS.ProcessEnv = process.env): ExchangeRateTable => {
+    const baseCurrency = (env.SALARY_BASE_CURRENCY || 'USD').toUpperCase();
+    let rates = DEFAULT_RATES_TO_USD;
+
+    if (env.EXCHANGE_RATES_FILE) {
+        rates = readRatesFile(env.EXCHANGE_RATES_FILE);
+    } else if (baseCurrency !== 'USD') {
+        // Rebase the built-in table on the configured base currency
+        const base = DEFAULT_RATES_TO_USD[baseCurrency];
+        if (!base) {
+            throw new Error(`No built-in exchange rate for base currency ${baseCurrency}; set EXCHANGE_RATES_FILE`);
+        }
+        rates = Object.fromEntries(
+            Object.entries(DEFAULT_RATES_TO_USD).map(([currency, rate]) => [currency, rate / base])
+        );
+    }
+
+    Object.entries(rates).forEach(([currency, rate]) => {
+        if (!(rate > 0)) {
+            throw new Error(`Invalid exchange rate for ${currency}`);
+        }
+    });
+    if (rates[baseCurrency] !== 1) {
+        throw new Error(`The rate for the base currency ${baseCurrency} must be 1`);
+    }
+
+    return {
+        baseCurrency,
+        rates: Object.freeze(rates),
+        version: crypto
+            .createHash('sha256')
+            .update(JSON.stringify(Object.entries(rates).sort()))
+            .digest('hex')
+            .slice(0, 12)
+    };
+};
+
+let table: ExchangeRateTable | null = null;
+
+// Load and check the rates at startup. Later calls pick up changed environment variables.
+export const initExchangeRates = (): ExchangeRateTable => {
+    table = parseExchangeRates();
+    return table;
+};
+
+export const getExchangeRates = (): ExchangeRateTable => table || initExchangeRates();
@@ -0,0 +1,30 @@
+import { GazetteerEntry } from '../utils/geocoding';
+
+// Built-in place list used by the default geocoder. Point GAZETTEER_FILE at a JSON array
+// of entries to use a larger one.
+const gazetteer: GazetteerEntry[] = [
+    { name: 'Buenos Aires', aliases: ['CABA', 'Capital Federal'], country: 'Argentina', lat: -34.6037, lng: -58.3816 },
+    { name: 'Córdoba', country: 'Argentina', lat: -31.4201, lng: -64.1888 },
+    { name: 'Villa Carlos Paz', country: 'Argentina', lat: -31.4241, lng: -64.4978 },
+    { name: 'Río Cuarto', country: 'Argentina', lat: -33.1232, lng: -64.3493 },
+    { name: 'Rosario', country: 'Argentina', lat: -32.9442, lng: -60.6505 },
+    { name: 'Mendoza', country: 'Argentina', lat: -32.8895, lng: -68.8458 },
+    { name: 'La Plata', country: 'Argentina', lat: -34.9214, lng: -57.9545 },
+    { name: 'Mar del Plata', country: 'Argentina', lat: -38.0055, lng: -57.5426 },
+    { name: 'San Miguel de Tucumán', aliases: ['Tucumán'], country: 'Argentina', lat: -26.8083, lng: -65.2176 },
+    { name: 'Salta', country: 'Argentina', lat: -24.7821, lng: -65.4232 },
+    { name: 'Neuquén', country: 'Argentina', lat: -38.9516, lng: -68.0591 },
+    { name: 'Santa Fe', country: 'Argentina', lat: -31.6107, lng: -60.6973 },
+    { name: 'Montevideo', country: 'Uruguay', lat: -34.9011, lng: -56.1645 },
+    { name: 'Santiago', aliases: ['Santiago de Chile'], country: 'Chile', lat: -33.4489, lng: -70.6693 },
+    { name: 'São Paulo', country: 'Brazil', lat: -23.5558, lng: -46.6396 },
+    { name: 'Mexico City', aliases: ['Ciudad de México', 'CDMX'], country: 'Mexico', lat: 19.4326, lng: -99.1332 },
+    { name: 'Madrid', country: 'Spain', lat: 40.4168, lng: -3.7038 },
+    { name: 'Barcelona', country: 'Spain', lat: 41.3874, lng: 2.1686 },
+    { name: 'London', country: 'United Kingdom', lat: 51.5072, lng: -0.1276 },
+    { name: 'Berlin', country: 'Germany', lat: 52.52, lng: 13.405 },
+    { name: 'New York', aliases: ['New York City', 'NYC'], country: 'United States', lat: 40.7128, lng: -74.006 },
+    { name: 'San Francisco', country: 'United States', lat: 37.7749, lng: -122.4194 }
+];
+
+export default gazetteer;
@@ -18,4 +18,12 @@ const upload = multer({
     }
 });
 
+// Bulk job imports (CSV or JSON). The file type is checked by the import controller.
+export const importUpload = multer({
+    storage,
+    limits: {
+        fileSize: 2 * 1024 * 1024 // 2MB limit
+    }
+});
+
 export default upload;
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { clientUrl } from '../utils/mail';
+
+export interface OidcProviderConfig {
+    name: string;
+    issuer: string;
+    clientId: string;
+    clientSecret?: string;  // Public clients rely on PKCE alone
+    redirectUri: string;
+    scopes: string;
+}
+
+// Name of the built-in mock identity provider (see routes/mockOidcRoutes.ts)
+export const MOCK_PROVIDER = 'mock';
+export const MOCK_CLIENT_ID = 'job-board';
+
+export const isMockOidcEnabled = (): boolean =>
+    process.env.OIDC_MOCK_ENABLED === 'true' && process.env.NODE_ENV !== 'production';
+
+export const mockIssuer = (): string =>
+    process.env.OIDC_MOCK_ISSUER || `http://localhost:${process.env.PORT || 5000}/mock-oidc`;
+
+// Providers are listed in OIDC_PROVIDERS (e.g. "google,microsoft") and each one is
+// configured with OIDC_<NAME>_ISSUER, _CLIENT_ID, _CLIENT_SECRET, _REDIRECT_URI and _SCOPES.
+// Providers without an issuer or client id are ignored.
+const loadProvider = (name: string): OidcProviderConfig | null => {
+    const prefix = `OIDC_${name.toUpperCase()}_`;
+    const issuer = process.env[`${prefix}ISSUER`];
+    const clientId = process.env[`${prefix}CLIENT_ID`];
+
+    if (!issuer || !clientId) {
+        return null;
+    }
+
+    return {
+        name,
+        issuer: issuer.replace(/\/$/, ''),
+        clientId,
+        clientSecret: process.env[`${prefix}CLIENT_SECRET`],
+        redirectUri: process.env[`${prefix}REDIRECT_URI`] || clientUrl(`/auth/oidc/${name}/callback`),
+        scopes: process.env[`${prefix}SCOPES`] || 'openid email profile'
+    };
+};
+
+export const getOidcProviders = (): OidcProviderConfig[] => {
+    const names = (process.env.OIDC_PROVIDERS || '')
+        .split(',')
+        .map(name => name.trim().toLowerCase())
+        .filter(name => name && name !== MOCK_PROVIDER);
+
+    const providers = names
+        .map(loadProvider)
+        .filter((provider): provider is OidcProviderConfig => provider !== null);
+
+    if (isMockOidcEnabled()) {
+        providers.push({
+            name: MOCK_PROVIDER,
+            issuer: mockIssuer(),
+            clientId: MOCK_CLIENT_ID,
+            redirectUri: process.env.OIDC_MOCK_REDIRECT_URI || clientUrl(`/auth/oidc/${MOCK_PROVIDER}/callback`),
+            scopes: 'openid email profile'
+        });
+    }
+
+    return providers;
+};
+
+export const getOidcProvider = (name: string): OidcProviderConfig | undefined =>
+    getOidcProviders().find(provider => provider.name === name);
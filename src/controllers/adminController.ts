@@ -0,0 +1,405 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Admin from '../models/Admin';
+import User from '../models/User';
+import Company from '../models/Company';
+import Job from '../models/Job';
+import Report from '../models/Report';
+import { AuthRequest } from '../middleware/auth';
+import { escapeRegex } from '../utils/regex';
+import { actorOf, reviseJob } from '../utils/jobRevisions';
+import { checkLoginAllowed, loginThrottleKey, recordLoginFailure, recordLoginSuccess, sendLoginBlocked } from '../utils/loginThrottle';
+import { createSession, rotateSession, revokeSessionByRefreshToken, sessionClient } from '../utils/tokens';
+
+const REPORT_STATUSES = ['open', 'resolved', 'dismissed'];
+
+// Page size cap, the same as the other list endpoints
+const MAX_LIMIT = 100;
+
+const listPage = (req: Request): { page: number; limit: number; skip: number } => {
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), MAX_LIMIT);
+    return { page, limit, skip: (page - 1) * limit };
+};
+
+// Build the filter shared by the user and company listings
+const accountListFilter = (req: Request, searchFields: string[]): Record<string, any> => {
+    const filter: Record<string, any> = {};
+
+    if (typeof req.query.q === 'string' && req.query.q.trim()) {
+        const pattern = { $regex: escapeRegex(req.query.q.trim()), $options: 'i' };
+        filter.$or = searchFields.map(field => ({ [field]: pattern }));
+    }
+
+    if (req.query.status === 'suspended') {
+        filter.suspendedAt = { $exists: true };
+    } else if (req.query.status === 'active') {
+        filter.suspendedAt = { $exists: false };
+    }
+
+    return filter;
+};
+
+// Login a platform administrator
+export const login = async (req: Request, res: Response) => {
+    try {
+        const { email, password } = req.body;
+
+        if (!email || !password) {
+            return res.status(400).json({
+                message: 'Email and password are required',
+                received: Object.keys(req.body)
+            });
+        }
+
+        const throttleKey = loginThrottleKey('Admin', email);
+        const block = await checkLoginAllowed(throttleKey, req.ip);
+        if (block) {
+            return sendLoginBlocked(res, block);
+        }
+
+        const admin = await Admin.findOne({ email });
+        const isMatch = admin ? await admin.comparePassword(password) : false;
+        if (!admin || !isMatch) {
+            const lock = await recordLoginFailure(throttleKey, req.ip);
+            if (lock) {
+                return sendLoginBlocked(res, lock);
+            }
+            return res.status(401).json({ message: 'Invalid login credentials' });
+        }
+
+        await recordLoginSuccess(throttleKey);
+
+        const { token, refreshToken, expiresIn } = await createSession(admin.id, 'Admin', sessionClient(req));
+
+        res.json({
+            message: 'Login successful',
+            token,
+            refreshToken,
+            expiresIn,
+            admin: {
+                id: admin._id,
+                email: admin.email,
+                name: admin.name
+            }
+        });
+    } catch (error) {
+        console.error('Admin login error:', error);
+        res.status(500).json({
+            message: 'Server error during admin login',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Exchange an admin refresh token for a new token pair
+export const refresh = async (req: Request, res: Response) => {
+    try {
+        const { refreshToken } = req.body;
+
+        if (!refreshToken || typeof refreshToken !== 'string') {
+            return res.status(400).json({ message: 'Refresh token is required' });
+        }
+
+        const tokens = await rotateSession(refreshToken, 'Admin', sessionClient(req));
+        if (!tokens) {
+            return res.status(401).json({ message: 'Invalid or expired refresh token' });
+        }
+
+        res.json({
+            message: 'Token refreshed successfully',
+            ...tokens
+        });
+    } catch (error) {
+        console.error('Admin refresh token error:', error);
+        res.status(500).json({
+            message: 'Server error while refreshing token',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Logout an admin by revoking the session behind the refresh token
+export const logout = async (req: Request, res: Response) => {
+    try {
+        const { refreshToken } = req.body;
+
+        if (!refreshToken || typeof refreshToken !== 'string') {
+            return res.status(400).json({ message: 'Refresh token is required' });
+        }
+
+        await revokeSessionByRefreshToken(refreshToken, 'Admin');
+
+        res.json({ message: 'Logged out successfully' });
+    } catch (error) {
+        console.error('Admin logout error:', error);
+        res.status(500).json({
+            message: 'Server error during admin logout',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// List/search users (?q=, ?status=active|suspended)
+export const listUsers = async (req: AuthRequest, res: Response) => {
+    try {
+        const { page, limit, skip } = listPage(req);
+
+        const filter = accountListFilter(req, ['firstName', 'lastName', 'email']);
+
+        const totalUsers = await User.countDocuments(filter);
+        const users = await User.find(filter)
+            .select('firstName lastName email location emailVerified suspendedAt suspensionReason createdAt')
+            .sort({ createdAt: -1 })
+            .skip(skip)
+            .limit(limit);
+
+        res.json({
+            users,
+            currentPage: page,
+            totalPages: Math.ceil(totalUsers / limit),
+            totalUsers
+        });
+    } catch (error) {
+        console.error('Admin list users error:', error);
+        res.status(500).json({
+            message: 'Server error while fetching users',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// List/search companies (?q=, ?status=active|suspended)
+export const listCompanies = async (req: AuthRequest, res: Response) => {
+    try {
+        const { page, limit, skip } = listPage(req);
+
+        const filter = accountListFilter(req, ['companyName', 'email']);
+
+        const totalCompanies = await Company.countDocuments(filter);
+        const companies = await Company.find(filter)
+            .select('companyName email industry location emailVerified suspendedAt suspensionReason createdAt')
+            .sort({ createdAt: -1 })
+            .skip(skip)
+            .limit(limit);
+
+        res.json({
+            companies,
+            currentPage: page,
+            totalPages: Math.ceil(totalCompanies / limit),
+            totalCompanies
+        });
+    } catch (error) {
+        console.error('Admin list companies error:', error);
+        res.status(500).json({
+            message: 'Server error while fetching companies',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Shared by the suspend/unsuspend handlers below
+const setSuspension = async (
+    req: AuthRequest,
+    res: Response,
+    accountType: 'User' | 'Company',
+    suspend: boolean
+) => {
+    try {
+        if (!req.admin) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const { id } = req.params;
+
+        if (!mongoose.Types.ObjectId.isValid(id)) {
+            return res.status(400).json({ message: `Invalid ${accountType.toLowerCase()} ID format` });
+        }
+
+        if (suspend && !req.body.reason) {
+            return res.status(400).json({ message: 'A suspension reason is required' });
+        }
+
+        const update = suspend
+            ? { $set: { suspendedAt: new Date(), suspensionReason: req.body.reason } }
+            : { $unset: { suspendedAt: 1, suspensionReason: 1 } };
+
+        const account = accountType === 'User'
+            ? await User.findByIdAndUpdate(id, update, { new: true }).select('email suspendedAt suspensionReason')
+            : await Company.findByIdAndUpdate(id, update, { new: true }).select('email suspendedAt suspensionReason');
+
+        if (!account) {
+            return res.status(404).json({ message: `${accountType} not found` });
+        }
+
+        // Optionally take a suspended company's postings down as well
+        let closedJobs = 0;
+        if (suspend && accountType === 'Company' && req.body.closeJobs) {
+            const moderation = { closedBy: req.admin.id, closedAt: new Date(), reason: req.body.reason };
+            const openJobs = await Job.find({ company: id, status: { $ne: 'closed' } }).select('_id');
+
+            // One at a time so each job gets its own revision
+            for (const { _id } of openJobs) {
+                const closed = await reviseJob(
+                    { _id, status: { $ne: 'closed' } },
+                    { $set: { status: 'closed', moderation } },
+                    actorOf(req.admin)
+                );
+                if (closed) {
+                    closedJobs++;
+                }
+            }
+        }
+
+        res.json({
+            message: suspend ? `${accountType} suspended successfully` : `${accountType} reinstated successfully`,
+            account,
+            ...(suspend && accountType === 'Company' && { closedJobs })
+        });
+    } catch (error) {
+        console.error('Admin suspension error:', error);
+        res.status(500).json({
+            message: 'Server error while updating account suspension',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+export const suspendUser = (req: AuthRequest, res: Response) => setSuspension(req, res, 'User', true);
+export const unsuspendUser = (req: AuthRequest, res: Response) => setSuspension(req, res, 'User', false);
+export const suspendCompany = (req: AuthRequest, res: Response) => setSuspension(req, res, 'Company', true);
+export const unsuspendCompany = (req: AuthRequest, res: Response) => setSuspension(req, res, 'Company', false);
+
+// Force-close a job posting; the company cannot reopen it
+export const closeJob = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.admin) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const { id } = req.params;
+        const { reason } = req.body;
+
+        if (!mongoose.Types.ObjectId.isValid(id)) {
+            return res.status(400).json({ message: 'Invalid job ID format' });
+        }
+
+        if (!reason) {
+            return res.status(400).json({ message: 'A reason is required' });
+        }
+
+        const job = await reviseJob(
+            { _id: id },
+            {
+                $set: {
+                    status: 'closed',
+                    moderation: { closedBy: req.admin.id, closedAt: new Date(), reason }
+                }
+            },
+            actorOf(req.admin)
+        );
+
+        if (!job) {
+            return res.status(404).json({ message: 'Job not found' });
+        }
+
+        res.json({
+            message: 'Job closed successfully',
+            job
+        });
+    } catch (error) {
+        console.error('Admin close job error:', error);
+        res.status(500).json({
+            message: 'Server error while closing job',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// List reported content (?status=open|resolved|dismissed, ?targetType=Job|Company|User)
+export const listReports = async (req: AuthRequest, res: Response) => {
+    try {
+        const { page, limit, skip } = listPage(req);
+
+        const filter: any = {};
+        if (req.query.status && REPORT_STATUSES.includes(req.query.status as string)) {
+            filter.status = req.query.status;
+        }
+        if (req.query.targetType && ['Job', 'Company', 'User'].includes(req.query.targetType as string)) {
+            filter.targetType = req.query.targetType;
+        }
+
+        const totalReports = await Report.countDocuments(filter);
+        const reports = await Report.find(filter)
+            // Targets are jobs, companies or users; list the fields moderators need from each
+            .populate('target', 'title company status moderation companyName firstName lastName email suspendedAt')
+            .populate('reporter', 'firstName lastName companyName email')
+            .sort({ createdAt: -1 })
+            .skip(skip)
+            .limit(limit);
+
+        res.json({
+            reports,
+            currentPage: page,
+            totalPages: Math.ceil(totalReports / limit),
+            totalReports
+        });
+    } catch (error) {
+        console.error('Admin list reports error:', error);
+        res.status(500).json({
+            message: 'Server error while fetching reports',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Resolve or dismiss a report
+export const updateReport = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.admin) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const { id } = req.params;
+        const { status, note } = req.body;
+
+        if (!mongoose.Types.ObjectId.isValid(id)) {
+            return res.status(400).json({ message: 'Invalid report ID format' });
+        }
+
+        if (!['resolved', 'dismissed'].includes(status)) {
+            return res.status(400).json({
+                message: 'Invalid status',
+                allowedValues: ['resolved', 'dismissed']
+            });
+        }
+
+        const report = await Report.findByIdAndUpdate(
+            id,
+            {
+                $set: {
+                    status,
+                    resolutionNote: note,
+                    resolvedBy: req.admin.id,
+                    resolvedAt: new Date()
+                }
+            },
+            { new: true }
+        );
+
+        if (!report) {
+            return res.status(404).json({ message: 'Report not found' });
+        }
+
+        res.json({
+            message: 'Report updated successfully',
+            report
+        });
+    } catch (error) {
+        console.error('Admin update report error:', error);
+        res.status(500).json({
+            message: 'Server error while updating report',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
@@ -0,0 +1,126 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import ApiKey, { API_KEY_SCOPES } from '../models/ApiKey';
+import { AuthRequest } from '../middleware/auth';
+import { generateApiKey } from '../utils/apiKeys';
+
+const formatApiKey = (apiKey: any) => ({
+    id: apiKey._id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes,
+    createdBy: apiKey.createdBy,
+    lastUsedAt: apiKey.lastUsedAt,
+    revokedAt: apiKey.revokedAt,
+    createdAt: apiKey.createdAt
+});
+
+// Create an API key for the authenticated company (owner/admin)
+export const createApiKey = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.company) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const { name, scopes } = req.body;
+
+        if (!name || !Array.isArray(scopes) || scopes.length === 0) {
+            return res.status(400).json({
+                message: 'Missing required fields',
+                required: ['name', 'scopes'],
+                received: Object.keys(req.body)
+            });
+        }
+
+        const invalidScopes = scopes.filter((scope: string) => !API_KEY_SCOPES.includes(scope as any));
+        if (invalidScopes.length > 0) {
+            return res.status(400).json({
+                message: 'Invalid scopes',
+                invalidScopes,
+                allowedValues: API_KEY_SCOPES
+            });
+        }
+
+        const { key, prefix, keyHash } = generateApiKey();
+
+        const apiKey = new ApiKey({
+            company: req.company.id,
+            name,
+            prefix,
+            keyHash,
+            scopes: Array.from(new Set(scopes)),
+            createdBy: req.company.memberId
+        });
+
+        await apiKey.save();
+
+        res.status(201).json({
+            message: 'API key created. Store it now, it will not be shown again.',
+            key,
+            apiKey: formatApiKey(apiKey)
+        });
+    } catch (error) {
+        console.error('Create API key error:', error);
+        res.status(500).json({
+            message: 'Server error while creating API key',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// List the company's API keys (without secrets)
+export const listApiKeys = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.company) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const apiKeys = await ApiKey.find({ company: req.company.id })
+            .select('-keyHash')
+            .sort({ createdAt: -1 });
+
+        res.json({ apiKeys: apiKeys.map(formatApiKey) });
+    } catch (error) {
+        console.error('List API keys error:', error);
+        res.status(500).json({
+            message: 'Server error while fetching API keys',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Revoke an API key (owner/admin)
+export const revokeApiKey = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.company) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const { keyId } = req.params;
+
+        if (!mongoose.Types.ObjectId.isValid(keyId)) {
+            return res.status(400).json({ message: 'Invalid API key ID format' });
+        }
+
+        const apiKey = await ApiKey.findOne({ _id: keyId, company: req.company.id });
+        if (!apiKey) {
+            return res.status(404).json({ message: 'API key not found' });
+        }
+
+        if (!apiKey.revokedAt) {
+            apiKey.revokedAt = new Date();
+            await apiKey.save();
+        }
+
+        res.json({
+            message: 'API key revoked successfully',
+            apiKey: formatApiKey(apiKey)
+        });
+    } catch (error) {
+        console.error('Revoke API key error:', error);
+        res.status(500).json({
+            message: 'Server error while revoking API key',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
@@ -1,8 +1,11 @@
 import { Response } from 'express';
-import Application from '../models/Application';
+import Application, { IApplication } from '../models/Application';
 import Job from '../models/Job';
 import Chat from '../models/Chat';
+import JobRevision from '../models/JobRevision';
 import { AuthRequest } from '../middleware/auth';
+import { ensureRevisionRecorded, historyStart } from '../utils/jobRevisions';
+import { afterCursor, cursorPage, parseCursor, withTiebreaker } from '../utils/pagination';
 
 // Apply for a job
 export const applyForJob = async (req: AuthRequest, res: Response) => {
@@ -30,6 +33,14 @@ export const applyForJob = async (req: AuthRequest, res: Response) => {
             return res.status(400).json({ message: 'This job posting is no longer active' });
         }
 
+        // The scheduler closes expired jobs periodically, so check the deadline itself too
+        if (job.deadline && job.deadline <= new Date()) {
+            return res.status(400).json({
+                message: 'The application deadline for this job has passed',
+                deadline: job.deadline
+            });
+        }
+
         // Check if the user has already applied
         const existingApplication = await Application.findOne({
             job: jobId,
@@ -40,9 +51,13 @@ export const applyForJob = async (req: AuthRequest, res: Response) => {
             return res.status(400).json({ message: 'You have already applied for this job.' });
         }
 
+        // Keep the posting as the user saw it, in case its content is disputed later
+        await ensureRevisionRecorded(job);
+
         // Create the application
         const application = new Application({
             job: jobId,
+            jobRevision: job.revision,
             user: userId,
             company: job.company,
             coverLetter,
@@ -96,25 +111,9 @@ export const getJobApplications = async (req: AuthRequest, res: Response) => {
             return res.status(401).json({ message: 'Only companies can view job applications.' });
         }
 
+        // The job was checked against the job policy by the authorize middleware
         const { jobId } = req.params;
 
-        // Verify the job exists and belongs to the company
-        const job = await Job.findOne({
-            _id: jobId,
-            company: req.company.id
-        });
-
-        if (!job) {
-            return res.status(404).json({ message: 'Job not found or not authorized.' });
-        }
-
-        // Convert both to strings for comparison
-        if (job.company.toString() !== req.company.id.toString()) {
-            return res.status(403).json({
-                message: 'Not authorized to view applications for this job'
-            });
-        }
-
         // Pagination
         const page = parseInt(req.query.page as string) || 1;
         const limit = parseInt(req.query.limit as string) || 10;
@@ -154,38 +153,10 @@ export const getApplicationById = async (req: AuthRequest, res: Response) => {
             return res.status(401).json({ message: 'Authentication required' });
         }
 
+        // Permissions were checked against the application policy by the authorize middleware
         const { id } = req.params;
 
-        // First, fetch the application without population to check if it exists
-        const applicationExists = await Application.findById(id);
-        if (!applicationExists) {
-            return res.status(404).json({ message: 'Application not found' });
-        }
-
-        // Permission checks (as before)
-        if (req.company) {
-            const job = await Job.findById(applicationExists.job);
-            if (!job) {
-                return res.status(404).json({ message: 'Associated job not found' });
-            }
-
-            const companyId = job.company.toString();
-            const requestingCompanyId = req.company.id;
-
-            if (companyId !== requestingCompanyId) {
-                return res.status(403).json({
-                    message: 'You do not have permission to view this application'
-                });
-            }
-        } else if (req.user) {
-            if (applicationExists.user.toString() !== req.user.id) {
-                return res.status(403).json({
-                    message: 'You do not have permission to view this application'
-                });
-            }
-        }
-
-        // Now fetch with population for the full details
+        // Fetch with population for the full details
         // For companies, include all relevant user profile fields
         const userFieldsToInclude = req.company
             ? 'firstName lastName email profileImage location bio skills experience education cv.originalName cv.uploadDate'
@@ -224,6 +195,44 @@ export const getApplicationById = async (req: AuthRequest, res: Response) => {
     }
 };
 
+// The job posting as it read when the application was submitted
+export const getApplicationJobRevision = async (req: AuthRequest, res: Response) => {
+    try {
+        // Permissions were checked against the application policy by the authorize middleware
+        const application = req.resource as IApplication;
+
+        // Applications from before revision history get the revision that was live on that date
+        const revision = await JobRevision.findOne({
+            job: application.job,
+            ...(application.jobRevision
+                ? { revision: application.jobRevision }
+                : { changedAt: { $lte: application.appliedAt } })
+        }).sort({ revision: -1 });
+
+        if (!revision) {
+            // History started after this application, so what the applicant saw is unknown
+            return res.status(404).json({
+                message: 'No history of this job posting is available for the date of this application',
+                historyStartsAt: await historyStart(application.job)
+            });
+        }
+
+        res.json({
+            applicationId: application._id,
+            appliedAt: application.appliedAt,
+            revision: revision.revision,
+            changedAt: revision.changedAt,
+            job: revision.snapshot
+        });
+    } catch (error) {
+        console.error('Get application job revision error:', error);
+        res.status(500).json({
+            message: 'Server error while fetching the job posting revision',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
 // Download applicant CV (company only)
 export const downloadApplicantCV = async (req: AuthRequest, res: Response) => {
     try {
@@ -231,24 +240,9 @@ export const downloadApplicantCV = async (req: AuthRequest, res: Response) => {
             return res.status(401).json({ message: 'Only companies can access applicant CVs' });
         }
 
-        const { applicationId } = req.params;
-
-        // Find the application
-        const application = await Application.findById(applicationId)
-            .populate('user')
-            .populate('job');
-
-        if (!application) {
-            return res.status(404).json({ message: 'Application not found' });
-        }
-
-        // Check if the company owns this job
-        const job = application.job as any;
-        if (job.company.toString() !== req.company.id) {
-            return res.status(403).json({
-                message: 'You do not have permission to access this application'
-            });
-        }
+        // Loaded and checked against the application policy by the authorize middleware
+        const application = req.resource as IApplication;
+        await application.populate('user');
 
         // Get the user's CV
         const user = application.user as any;
@@ -281,7 +275,6 @@ export const updateApplicationStatus = async (req: AuthRequest, res: Response) =
             return res.status(401).json({ message: 'Only companies can update application status' });
         }
 
-        const { applicationId } = req.params;
         const { status } = req.body;
 
         if (!status || !['pending', 'reviewed', 'interviewing', 'rejected', 'accepted'].includes(status)) {
@@ -291,21 +284,8 @@ export const updateApplicationStatus = async (req: AuthRequest, res: Response) =
             });
         }
 
-        // Find the application and make sure it belong to a job from this company
-        const application = await Application.findById(applicationId)
-            .populate('job')
-
-        if (!application) {
-            return res.status(404).json({ message: 'Application not found.' });
-        }
-
-        // Type assertion to access job.company
-        const job = application.job as any;
-
-        // Check if the job belong to the company making the request
-        if (job.company.toString() !== req.company.id) {
-            return res.status(403).json({ message: 'Not authorized to update this application.' });
-        }
+        // Loaded and checked against the application policy by the authorize middleware
+        const application = req.resource as IApplication;
 
         application.status = status;
         await application.save();
@@ -344,17 +324,34 @@ export const getUserApplications = async (req: AuthRequest, res: Response) => {
             filter.status = req.query.status;
         }
 
+        const sort = withTiebreaker({ appliedAt: -1 });
+        const { cursor, error } = parseCursor(req.query, sort);
+        if (error) {
+            return res.status(400).json({ message: error });
+        }
+
+        const populateJob = {
+            path: 'job',
+            select: 'title company type location',
+            populate: {
+                path: 'company',
+                select: 'companyName logo'
+            }
+        };
+
+        if (cursor) {
+            const docs = await Application.find(afterCursor(filter, sort, cursor.after))
+                .populate(populateJob)
+                .sort(sort)
+                .limit(cursor.limit + 1);
+            const { items, nextCursor } = cursorPage(docs, sort, cursor.limit);
+            return res.json({ applications: items, nextCursor, limit: cursor.limit });
+        }
+
         const totalApplications = await Application.countDocuments(filter);
         const applications = await Application.find(filter)
-            .populate({
-                path: 'job',
-                select: 'title company type location',
-                populate: {
-                    path: 'company',
-                    select: 'companyName logo'
-                }
-            })
-            .sort({ appliedAt: -1 })
+            .populate(populateJob)
+            .sort(sort)
             .skip(skip)
             .limit(limit);
 
@@ -450,27 +447,15 @@ export const createChatForApplication = async (req: AuthRequest, res: Response)
 
         const { applicationId } = req.params;
 
-        // Find the application
-        const application = await Application.findById(applicationId)
-            .populate({
-                path: 'job',
-                populate: {
-                    path: 'company'
-                }
-            });
-
-        if (!application) {
-            return res.status(404).json({ message: 'Application not found' });
-        }
-
-        // Verify permissions
+        // Loaded and checked against the application policy by the authorize middleware
+        const application = req.resource as IApplication;
+        await application.populate({
+            path: 'job',
+            populate: {
+                path: 'company'
+            }
+        });
         const job = application.job as any;
-        const isUser = req.user && application.user.toString() === req.user.id;
-        const isCompany = req.company && job.company._id.toString() === req.company.id;
-
-        if (!isUser && !isCompany) {
-            return res.status(403).json({ message: 'You do not have permission to create a chat for this application' });
-        }
 
         // Check if chat already exists
         const existingChat = await Chat.findOne({ applicationId });
@@ -549,21 +534,9 @@ export const getJobApplicationsStats = async (req: AuthRequest, res: Response) =
             return res.status(401).json({ message: 'Only companies can access this resource' });
         }
 
-        const companyId = req.company.id;
+        // The job was checked against the job policy by the authorize middleware
         const jobId = req.params.jobId;
 
-        // Verify the job exists and belongs to the company
-        const job = await Job.findOne({
-            _id: jobId,
-            company: companyId
-        });
-
-        if (!job) {
-            return res.status(404).json({
-                message: 'Job not found or you do not have permission to access this job'
-            });
-        }
-
         // Get total application count for this job
         const totalApplications = await Application.countDocuments({ job: jobId });
 
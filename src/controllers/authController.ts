@@ -1,7 +1,29 @@
 import { Request, Response } from 'express';
-import jwt from 'jsonwebtoken';
-import Company from '../models/Company';
+import Company, { ICompany } from '../models/Company';
+import CompanyMember from '../models/CompanyMember';
+import ApiKey from '../models/ApiKey';
 import { AuthRequest } from '../middleware/auth';
+import { issueAccountToken, consumeAccountToken } from '../utils/accountTokens';
+import { sendMail, clientUrl } from '../utils/mail';
+import { validatePassword } from '../utils/passwordPolicy';
+import { checkLoginAllowed, loginThrottleKey, recordLoginFailure, recordLoginSuccess, sendLoginBlocked, sendUnlockEmail, unlockWithToken } from '../utils/loginThrottle';
+import { createSession, rotateSession, revokeSessionByRefreshToken, revokeAllSessions, revokeOwnerSessions, signTwoFactorChallenge, sessionClient } from '../utils/tokens';
+
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const EMAIL_VERIFICATION_TTL_MINUTES = 24 * 60;
+
+// Email a verification link for the company's current address
+const sendVerificationEmail = async (company: ICompany) => {
+    const token = await issueAccountToken(company.id, 'Company', 'email-verification', EMAIL_VERIFICATION_TTL_MINUTES);
+    const verifyLink = clientUrl('/verify-email', { token, type: 'company' });
+
+    await sendMail({
+        to: company.email,
+        subject: 'Verify your email address',
+        text: `Hi ${company.companyName},\n\nPlease confirm your email address by opening the link below. ` +
+            `It expires in 24 hours.\n\n${verifyLink}`
+    });
+};
 
 // Register a new company
 export const register = async (req: Request, res: Response) => {
@@ -19,6 +41,14 @@ export const register = async (req: Request, res: Response) => {
             });
         }
 
+        const passwordErrors = validatePassword(password);
+        if (passwordErrors.length > 0) {
+            return res.status(400).json({
+                message: 'Password does not meet requirements',
+                errors: passwordErrors
+            });
+        }
+
         // Check if company already exists
         const existingCompany = await Company.findOne({ email });
         if (existingCompany) {
@@ -34,27 +64,28 @@ export const register = async (req: Request, res: Response) => {
             location,
             description,
             website,
-            logo
+            logo,
+            emailVerified: false
         });
 
         await company.save();
+        await sendVerificationEmail(company);
 
-        // Generate JWT token
-        const token = jwt.sign(
-            { id: company._id, isCompany: true },
-            process.env.JWT_SECRET || 'defaultsecret',
-            { expiresIn: '24h' }
-        );
+        // Start a session and issue an access/refresh token pair
+        const { token, refreshToken, expiresIn } = await createSession(company.id, 'Company', { role: 'owner', ...sessionClient(req) });
 
         res.status(201).json({
             message: 'Company registered successfully',
             token,
+            refreshToken,
+            expiresIn,
             company: {
                 id: company._id,
                 companyName: company.companyName,
                 email: company.email,
                 industry: company.industry,
-                location: company.location
+                location: company.location,
+                emailVerified: company.emailVerified !== false
             }
         });
     } catch (error) {
@@ -81,34 +112,64 @@ export const login = async (req: Request, res: Response) => {
             });
         }
 
+        // Refuse early when this account or this IP has too many recent failures
+        const throttleKey = loginThrottleKey('Company', email);
+        const block = await checkLoginAllowed(throttleKey, req.ip);
+        if (block) {
+            return sendLoginBlocked(res, block);
+        }
+
         // Find company by email
         const company = await Company.findOne({ email });
         if (!company) {
+            const lock = await recordLoginFailure(throttleKey, req.ip);
+            if (lock) {
+                return sendLoginBlocked(res, lock);
+            }
             return res.status(401).json({ message: 'Invalid login credentials' });
         }
 
         // Check password
         const isMatch = await company.comparePassword(password);
         if (!isMatch) {
+            const lock = await recordLoginFailure(throttleKey, req.ip);
+            if (lock) {
+                await sendUnlockEmail(company.id, 'Company', company.email);
+                return sendLoginBlocked(res, lock);
+            }
             return res.status(401).json({ message: 'Invalid login credentials' });
         }
 
-        // Generate JWT token
-        const token = jwt.sign(
-            { id: company._id, isCompany: true },
-            process.env.JWT_SECRET || 'defaultsecret',
-            { expiresIn: '24h' }
-        );
+        await recordLoginSuccess(throttleKey);
+
+        if (company.suspendedAt) {
+            return res.status(403).json({ message: 'This account has been suspended' });
+        }
+
+        // A second factor is required before any session is started
+        if (company.twoFactor?.enabled) {
+            return res.json({
+                message: 'Two-factor authentication required',
+                twoFactorRequired: true,
+                challengeToken: signTwoFactorChallenge({ id: company.id, accountType: 'Company' })
+            });
+        }
+
+        // Start a session and issue an access/refresh token pair
+        const { token, refreshToken, expiresIn } = await createSession(company.id, 'Company', { role: 'owner', ...sessionClient(req) });
 
         res.json({
             message: 'Login successful',
             token,
+            refreshToken,
+            expiresIn,
             company: {
                 id: company._id,
                 companyName: company.companyName,
                 email: company.email,
                 industry: company.industry,
-                location: company.location
+                location: company.location,
+                emailVerified: company.emailVerified !== false
             }
         });
     } catch (error) {
@@ -120,6 +181,286 @@ export const login = async (req: Request, res: Response) => {
     }
 }
 
+// Exchange a refresh token for a new access/refresh token pair
+export const refresh = async (req: Request, res: Response) => {
+    try {
+        const { refreshToken } = req.body;
+
+        if (!refreshToken || typeof refreshToken !== 'string') {
+            return res.status(400).json({ message: 'Refresh token is required' });
+        }
+
+        const tokens = await rotateSession(refreshToken, 'Company', sessionClient(req));
+        if (!tokens) {
+            return res.status(401).json({ message: 'Invalid or expired refresh token' });
+        }
+
+        res.json({
+            message: 'Token refreshed successfully',
+            ...tokens
+        });
+    } catch (error) {
+        console.error('Refresh token error:', error);
+        res.status(500).json({
+            message: 'Server error while refreshing token',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Logout a company by revoking the session behind the refresh token
+export const logout = async (req: Request, res: Response) => {
+    try {
+        const { refreshToken } = req.body;
+
+        if (!refreshToken || typeof refreshToken !== 'string') {
+            return res.status(400).json({ message: 'Refresh token is required' });
+        }
+
+        await revokeSessionByRefreshToken(refreshToken, 'Company');
+
+        res.json({ message: 'Logged out successfully' });
+    } catch (error) {
+        console.error('Logout error:', error);
+        res.status(500).json({
+            message: 'Server error during logout',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Request a password reset link by email
+export const forgotPassword = async (req: Request, res: Response) => {
+    try {
+        const { email } = req.body;
+
+        if (!email) {
+            return res.status(400).json({ message: 'Email is required' });
+        }
+
+        // Always answer the same way so the endpoint cannot be used to discover accounts
+        const response = { message: 'If an account exists for this email, a password reset link has been sent' };
+
+        const company = await Company.findOne({ email });
+        if (!company) {
+            return res.json(response);
+        }
+
+        const token = await issueAccountToken(company.id, 'Company', 'password-reset', PASSWORD_RESET_TTL_MINUTES);
+        const resetLink = clientUrl('/reset-password', { token, type: 'company' });
+
+        await sendMail({
+            to: company.email,
+            subject: 'Reset your password',
+            text: `Hi ${company.companyName},\n\nUse the link below to choose a new password. ` +
+                `It expires in ${PASSWORD_RESET_TTL_MINUTES} minutes and can only be used once.\n\n${resetLink}\n\n` +
+                `If you did not request a password reset you can ignore this email.`
+        });
+
+        res.json(response);
+    } catch (error) {
+        console.error('Forgot password error:', error);
+        res.status(500).json({
+            message: 'Server error while requesting password reset',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Set a new password using a reset token
+export const resetPassword = async (req: Request, res: Response) => {
+    try {
+        const { token, password } = req.body;
+
+        if (!token || !password) {
+            return res.status(400).json({
+                message: 'Token and password are required',
+                received: Object.keys(req.body)
+            });
+        }
+
+        const passwordErrors = validatePassword(password);
+        if (passwordErrors.length > 0) {
+            return res.status(400).json({
+                message: 'Password does not meet requirements',
+                errors: passwordErrors
+            });
+        }
+
+        const resetToken = await consumeAccountToken(token, 'Company', 'password-reset');
+        if (!resetToken) {
+            return res.status(400).json({ message: 'Invalid or expired password reset token' });
+        }
+
+        const company = await Company.findById(resetToken.accountId);
+        if (!company) {
+            return res.status(404).json({ message: 'Company not found' });
+        }
+
+        // The pre('save') hook hashes the new password
+        company.password = password;
+        await company.save();
+
+        // Whoever knew the old password should not stay signed in. Team members sign in
+        // with their own passwords, so their sessions are kept.
+        await revokeOwnerSessions(company.id);
+
+        res.json({ message: 'Password has been reset successfully' });
+    } catch (error) {
+        console.error('Reset password error:', error);
+        res.status(500).json({
+            message: 'Server error while resetting password',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Confirm an email address using a verification token
+export const verifyEmail = async (req: Request, res: Response) => {
+    try {
+        const { token } = req.body;
+
+        if (!token) {
+            return res.status(400).json({ message: 'Verification token is required' });
+        }
+
+        const verificationToken = await consumeAccountToken(token, 'Company', 'email-verification');
+        if (!verificationToken) {
+            return res.status(400).json({ message: 'Invalid or expired verification token' });
+        }
+
+        const company = await Company.findById(verificationToken.accountId);
+        if (!company) {
+            return res.status(404).json({ message: 'Company not found' });
+        }
+
+        company.emailVerified = true;
+        company.emailVerifiedAt = new Date();
+        await company.save();
+
+        res.json({ message: 'Email verified successfully' });
+    } catch (error) {
+        console.error('Verify email error:', error);
+        res.status(500).json({
+            message: 'Server error while verifying email',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Send a new verification email to the authenticated company
+export const resendVerification = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.company) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const company = await Company.findById(req.company.id);
+        if (!company) {
+            return res.status(404).json({ message: 'Company not found' });
+        }
+
+        if (company.emailVerified !== false) {
+            return res.status(400).json({ message: 'Email is already verified' });
+        }
+
+        await sendVerificationEmail(company);
+
+        res.json({ message: 'Verification email sent' });
+    } catch (error) {
+        console.error('Resend verification error:', error);
+        res.status(500).json({
+            message: 'Server error while sending verification email',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Change the password of the authenticated company
+export const changePassword = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.company) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const { currentPassword, newPassword } = req.body;
+
+        if (!currentPassword || !newPassword) {
+            return res.status(400).json({
+                message: 'Current password and new password are required',
+                received: Object.keys(req.body)
+            });
+        }
+
+        const passwordErrors = validatePassword(newPassword);
+        if (passwordErrors.length > 0) {
+            return res.status(400).json({
+                message: 'Password does not meet requirements',
+                errors: passwordErrors
+            });
+        }
+
+        const company = await Company.findById(req.company.id);
+        if (!company) {
+            return res.status(404).json({ message: 'Company not found' });
+        }
+
+        const isMatch = await company.comparePassword(currentPassword);
+        if (!isMatch) {
+            return res.status(401).json({ message: 'Current password is incorrect' });
+        }
+
+        if (await company.comparePassword(newPassword)) {
+            return res.status(400).json({ message: 'New password must be different from the current password' });
+        }
+
+        // The pre('save') hook hashes the new password
+        company.password = newPassword;
+        await company.save();
+
+        // Sign out the owner's other sessions, then keep the current client signed in with a fresh one
+        await revokeOwnerSessions(company.id);
+        const { token, refreshToken, expiresIn } = await createSession(company.id, 'Company', { role: 'owner', ...sessionClient(req) });
+
+        res.json({
+            message: 'Password changed successfully',
+            token,
+            refreshToken,
+            expiresIn
+        });
+    } catch (error) {
+        console.error('Change password error:', error);
+        res.status(500).json({
+            message: 'Server error while changing password',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Unlock a company account locked after too many failed logins
+export const unlockAccount = async (req: Request, res: Response) => {
+    try {
+        const { token } = req.body;
+
+        if (!token) {
+            return res.status(400).json({ message: 'Unlock token is required' });
+        }
+
+        const unlocked = await unlockWithToken(token, 'Company');
+        if (!unlocked) {
+            return res.status(400).json({ message: 'Invalid or expired unlock token' });
+        }
+
+        res.json({ message: 'Account unlocked successfully' });
+    } catch (error) {
+        console.error('Unlock account error:', error);
+        res.status(500).json({
+            message: 'Server error while unlocking account',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
 // Update company profile
 export const updateCompany = async (req: AuthRequest, res: Response) => {
     try {
@@ -155,6 +496,12 @@ export const updateCompany = async (req: AuthRequest, res: Response) => {
             if (existingCompany) {
                 return res.status(400).json({ message: 'Email is already in use' });
             }
+
+            // A new address has to be verified again
+            const currentCompany = await Company.findById(companyId).select('email');
+            if (currentCompany && currentCompany.email !== String(email).trim().toLowerCase()) {
+                updateData.emailVerified = false;
+            }
         }
 
         const updatedCompany = await Company.findByIdAndUpdate(
@@ -167,6 +514,10 @@ export const updateCompany = async (req: AuthRequest, res: Response) => {
             return res.status(404).json({ message: 'Company not found' });
         }
 
+        if (updateData.emailVerified === false) {
+            await sendVerificationEmail(updatedCompany);
+        }
+
         res.json({
             message: 'Company updated successfully',
             company: {
@@ -204,6 +555,12 @@ export const deleteCompany = async (req: AuthRequest, res: Response) => {
             return res.status(404).json({ message: 'Company not found' });
         }
 
+        await CompanyMember.deleteMany({ company: companyId });
+        await ApiKey.deleteMany({ company: companyId });
+
+        // Sign out every device that was using this account, team members included
+        await revokeAllSessions(companyId, 'Company');
+
         res.json({
             message: 'Company deleted successfully'
         });
@@ -1,8 +1,8 @@
 import { Response } from 'express';
-import Chat from '../models/Chat';
+import Chat, { IChat } from '../models/Chat';
 import Job from '../models/Job';
 import mongoose from 'mongoose';
-import { AuthRequest } from '../middleware/auth';
+import { AuthRequest, principalOf } from '../middleware/auth';
 
 // Create a new chat when user applies for a job
 export const createChat = async (
@@ -135,28 +135,13 @@ export const getChatById = async (req: AuthRequest, res: Response): Promise<void
                   return;
             }
 
-            const { chatId } = req.params;
-
-            const chat = await Chat.findById(chatId)
-                  .populate('userId', 'firstName lastName email profileImage')
-                  .populate('companyId', 'companyName logo')
-                  .populate('jobId', 'title location type');
-
-            if (!chat) {
-                  res.status(404).json({ message: 'Chat not found' });
-                  return;
-            }
-
-            // Verify the requester is part of this chat
-            if (
-                  (req.user && chat.userId._id.toString() !== req.user.id) ||
-                  (req.company && chat.companyId._id.toString() !== req.company.id)
-            ) {
-                  res.status(403).json({
-                        message: 'You do not have permission to access this chat'
-                  });
-                  return;
-            }
+            // Loaded and checked against the chat policy by the authorize middleware
+            const chat = req.resource as IChat;
+            await chat.populate([
+                  { path: 'userId', select: 'firstName lastName email profileImage' },
+                  { path: 'companyId', select: 'companyName logo' },
+                  { path: 'jobId', select: 'title location type' }
+            ]);
 
             res.status(200).json(chat);
       } catch (error) {
@@ -171,12 +156,12 @@ export const getChatById = async (req: AuthRequest, res: Response): Promise<void
 // Send a message in a chat
 export const sendMessage = async (req: AuthRequest, res: Response): Promise<void> => {
       try {
-            if (!req.user && !req.company) {
+            const principal = principalOf(req);
+            if (!principal) {
                   res.status(401).json({ message: 'Authentication required' });
                   return;
             }
 
-            const { chatId } = req.params;
             const { content } = req.body;
 
             if (!content) {
@@ -184,23 +169,11 @@ export const sendMessage = async (req: AuthRequest, res: Response): Promise<void
                   return;
             }
 
-            const chat = await Chat.findById(chatId);
-            if (!chat) {
-                  res.status(404).json({ message: 'Chat not found' });
-                  return;
-            }
+            // Loaded and checked against the chat policy by the authorize middleware
+            const chat = req.resource as IChat;
 
             // Determine sender ID based on who is authenticated
-            const senderId = req.user ? req.user.id : req.company.id;
-
-            // Verify the sender is either the user or the company in this chat
-            if (
-                  (req.user && chat.userId.toString() !== req.user.id) ||
-                  (req.company && chat.companyId.toString() !== req.company.id)
-            ) {
-                  res.status(403).json({ message: 'You do not have permission to send messages in this chat' });
-                  return;
-            }
+            const senderId = principal.id;
 
             // Add the message to the chat
             chat.messages.push({
@@ -228,30 +201,17 @@ export const sendMessage = async (req: AuthRequest, res: Response): Promise<void
 // Mark messages as read
 export const markChatAsRead = async (req: AuthRequest, res: Response): Promise<void> => {
       try {
-            if (!req.user && !req.company) {
+            const principal = principalOf(req);
+            if (!principal) {
                   res.status(401).json({ message: 'Authentication required' });
                   return;
             }
 
-            const { chatId } = req.params;
-
-            const chat = await Chat.findById(chatId);
-            if (!chat) {
-                  res.status(404).json({ message: 'Chat not found' });
-                  return;
-            }
-
-            // Verify the requester is part of this chat
-            if (
-                  (req.user && chat.userId.toString() !== req.user.id) ||
-                  (req.company && chat.companyId.toString() !== req.company.id)
-            ) {
-                  res.status(403).json({ message: 'You do not have permission to access this chat' });
-                  return;
-            }
+            // Loaded and checked against the chat policy by the authorize middleware
+            const chat = req.resource as IChat;
 
             // Determine which messages to mark as read based on who is making the request
-            const currentUserId = req.user ? req.user.id : req.company.id;
+            const currentUserId = principal.id;
 
             // Mark messages as read where the sender is NOT the current user
             let updated = false;
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import Company from '../models/Company';
 import { AuthRequest } from '../middleware/auth';
+import { afterCursor, cursorPage, parseCursor, withTiebreaker } from '../utils/pagination';
 import mongoose from 'mongoose';
 
 // Get company by ID
@@ -44,11 +45,25 @@ export const getAllCompanies = async (req: Request, res: Response) => {
       filter.industry = req.query.industry;
     }
 
+    const sort = withTiebreaker({ companyName: 1 }); // Sort alphabetically
+    const { cursor, error } = parseCursor(req.query, sort);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    if (cursor) {
+      const docs = await Company.find(afterCursor(filter, sort, cursor.after))
+        .select('-password')
+        .sort(sort)
+        .limit(cursor.limit + 1);
+      const { items, nextCursor } = cursorPage(docs, sort, cursor.limit);
+      return res.json({ companies: items, nextCursor, limit: cursor.limit });
+    }
+
     // Get total count and companies
     const totalCompanies = await Company.countDocuments(filter);
     const companies = await Company.find(filter)
       .select('-password') // Exclude password
-      .sort({ companyName: 1 }) // Sort alphabetically
+      .sort(sort)
       .skip(skip)
       .limit(limit);
 
@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Company from '../models/Company';
+import Job, { openDeadlineFilter } from '../models/Job';
+import { FeedJob, renderAtom, renderJobFeedXml, renderRss, toJobPosting } from '../utils/jobFeeds';
+import { apiUrl } from '../utils/mail';
+
+// Newest jobs included in each feed
+const FEED_MAX_JOBS = 500;
+
+// Feeds are polled often and may lag a few minutes behind
+const CACHE_CONTROL = 'public, max-age=300';
+
+const COMPANY_FIELDS = 'companyName website logo location';
+
+// Active jobs, newest first, leaving out those of suspended (or deleted) companies.
+// Suspended companies are excluded in the query so they do not use up the limit.
+const loadFeedJobs = async (): Promise<FeedJob[]> => {
+    const suspendedCompanies = await Company.find({ suspendedAt: { $exists: true } }).distinct('_id');
+    const jobs = await Job.find({ status: 'active', company: { $nin: suspendedCompanies }, ...openDeadlineFilter() })
+        .populate({ path: 'company', select: COMPANY_FIELDS, match: { suspendedAt: { $exists: false } } })
+        .sort({ postedAt: -1 })
+        .limit(FEED_MAX_JOBS);
+
+    return jobs.filter(job => job.company) as unknown as FeedJob[];
+};
+
+// Feeds are cached publicly, so their self link must not come from request headers
+const selfUrl = (req: Request): string => apiUrl(`${req.baseUrl}${req.path}`);
+
+const sendFeed = async (req: Request, res: Response, contentType: string, render: (jobs: FeedJob[]) => string) => {
+    try {
+        const jobs = await loadFeedJobs();
+        res.set('Cache-Control', CACHE_CONTROL).type(contentType).send(render(jobs));
+    } catch (error) {
+        console.error('Job feed error:', error);
+        res.status(500).json({
+            message: 'Server error while building job feed',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+export const rssFeed = (req: Request, res: Response) =>
+    sendFeed(req, res, 'application/rss+xml; charset=utf-8', jobs => renderRss(jobs, selfUrl(req)));
+
+export const atomFeed = (req: Request, res: Response) =>
+    sendFeed(req, res, 'application/atom+xml; charset=utf-8', jobs => renderAtom(jobs, selfUrl(req)));
+
+export const xmlFeed = (req: Request, res: Response) =>
+    sendFeed(req, res, 'application/xml; charset=utf-8', renderJobFeedXml);
+
+// schema.org JobPosting for one active job, for embedding in its page
+export const jobPostingJsonLd = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        if (!mongoose.Types.ObjectId.isValid(id)) {
+            return res.status(400).json({ message: 'Invalid job ID format' });
+        }
+
+        const job = await Job.findOne({ _id: id, status: 'active', ...openDeadlineFilter() })
+            .populate({ path: 'company', select: COMPANY_FIELDS, match: { suspendedAt: { $exists: false } } });
+
+        // Closed and expired postings must drop out of search results
+        if (!job || !job.company) {
+            return res.status(404).json({ message: 'Job not found' });
+        }
+
+        res.set('Cache-Control', CACHE_CONTROL)
+            .type('application/ld+json; charset=utf-8')
+            .send(JSON.stringify(toJobPosting(job as unknown as FeedJob)));
+    } catch (error) {
+        console.error('Job JSON-LD error:', error);
+        res.status(500).json({
+            message: 'Server error while building job posting data',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
@@ -1,7 +1,18 @@
 import { Response } from 'express';
-import mongoose from 'mongoose';
-import Job from '../models/Job';
-import { AuthRequest } from '../middleware/auth';
+import Job, { IJob } from '../models/Job';
+import { AuthRequest, principalOf } from '../middleware/auth';
+import { can } from '../policies';
+import { getExchangeRates } from '../config/exchangeRates';
+import { toGeoPoint } from '../models/GeoPoint';
+import { parseJobQuery, runJobQuery, ParseJobQueryOptions } from '../utils/jobQuery';
+import { afterCursor, cursorPage, parseCursor, withTiebreaker } from '../utils/pagination';
+import { salaryError } from '../utils/salary';
+import { actorOf, applyJobUpdate, ensureRevisionRecorded, historyStart, revisionAt } from '../utils/jobRevisions';
+import JobRevision from '../models/JobRevision';
+import { pickTemplateFields } from '../utils/jobTemplates';
+import { coordinatesError, scheduleError, validateJobInput, REQUIRED_JOB_FIELDS } from '../utils/jobInput';
+import { withSavedFlag } from '../utils/savedJobs';
+import SavedJob from '../models/SavedJob';
 
 // Create a new job posting
 export const createJob = async (req: AuthRequest, res: Response) => {
@@ -10,47 +21,24 @@ export const createJob = async (req: AuthRequest, res: Response) => {
       return res.status(401).json({ message: 'Only companies can post jobs' });
     }
 
-    const {
-      title,
-      location,
-      description,
-      requirements,
-      type,
-      salary,
-      applicationLink,
-      skills,
-      experience,
-      education,
-      deadline,
-      status
-    } = req.body;
+    const { input, missing, error } = validateJobInput(req.body);
 
     // Validate required fields
-    if (!title || !location || !description || !requirements || !type || !skills || !experience || !education) {
+    if (missing) {
       return res.status(400).json({
         message: 'Missing required fields',
-        required: ['title', 'location', 'description', 'requirements', 'type', 'skills', 'experience', 'education'],
+        required: REQUIRED_JOB_FIELDS,
         received: Object.keys(req.body)
       });
     }
+    if (!input) {
+      return res.status(400).json({ message: error });
+    }
 
-    const job = new Job({
-      title,
-      company: req.company.id,
-      location,
-      description,
-      requirements: Array.isArray(requirements) ? requirements : [requirements],
-      type,
-      salary,
-      applicationLink,
-      skills: Array.isArray(skills) ? skills : skills.split(',').map((skill: string) => skill.trim()),
-      experience,
-      education,
-      deadline,
-      status: status || 'active'
-    });
+    const job = new Job({ ...input, company: req.company.id });
 
     await job.save();
+    await ensureRevisionRecorded(job, actorOf(req.company));
 
     res.status(201).json({
       message: 'Job posted successfully',
@@ -65,50 +53,72 @@ export const createJob = async (req: AuthRequest, res: Response) => {
   }
 };
 
-// Get all jobs (with filtering and pagination)
-export const getJobs = async (req: AuthRequest, res: Response) => {
+// Copy one of the company's postings into a new draft, optionally under a new title
+export const duplicateJob = async (req: AuthRequest, res: Response) => {
   try {
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
-    const skip = (page - 1) * limit;
-    
-    // Build filter object based on query params
-    const filter: any = { status: 'active' };
-    
-    if (req.query.title) {
-      filter.title = { $regex: req.query.title, $options: 'i' };
-    }
-    
-    if (req.query.location) {
-      filter.location = { $regex: req.query.location, $options: 'i' };
-    }
-    
-    if (req.query.type) {
-      filter.type = req.query.type;
-    }
-    
-    if (req.query.skills) {
-      const skillsArray = (req.query.skills as string).split(',');
-      filter.skills = { $in: skillsArray };
+    if (!req.company) {
+      return res.status(401).json({ message: 'Only companies can duplicate jobs' });
     }
 
-    if (req.query.company) {
-      filter.company = new mongoose.Types.ObjectId(req.query.company as string);
+    // Loaded and checked against the job policy by the authorize middleware
+    const source = req.resource as IJob;
+
+    // A copy would bring back a posting a moderator took down
+    if (source.moderation?.closedAt) {
+      return res.status(403).json({
+        message: 'This job was closed by a moderator and cannot be copied',
+        reason: source.moderation.reason
+      });
     }
 
-    const totalJobs = await Job.countDocuments(filter);
-    const jobs = await Job.find(filter)
-      .populate('company', 'companyName location industry logo')
-      .sort({ postedAt: -1 })
-      .skip(skip)
-      .limit(limit);
+    // Scheduling and the application deadline are left for the new posting to set
+    const job = new Job({
+      ...pickTemplateFields(source.toObject()),
+      ...(req.body?.title && { title: req.body.title }),
+      company: source.company,
+      status: 'draft'
+    });
 
-    res.json({
-      jobs,
-      currentPage: page,
-      totalPages: Math.ceil(totalJobs / limit),
-      totalJobs
+    await job.save();
+    await ensureRevisionRecorded(job, actorOf(req.company));
+
+    res.status(201).json({
+      message: 'Job duplicated as a draft',
+      job
     });
+  } catch (error) {
+    console.error('Duplicate job error:', error);
+    res.status(500).json({
+      message: 'Server error while duplicating job posting',
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
+
+// Respond with the results of a validated job query
+const sendJobQuery = async (req: AuthRequest, res: Response, options: ParseJobQueryOptions = {}) => {
+  const { query, errors } = parseJobQuery(req.query, options);
+  if (!query) {
+    return res.status(400).json({ message: 'Invalid search parameters', errors });
+  }
+
+  const { jobs, total = 0, nextCursor, facets } = await runJobQuery(query);
+
+  res.json({
+    jobs: await withSavedFlag(jobs, req.user),
+    ...(query.cursor
+      ? { nextCursor, limit: query.cursor.limit }
+      : { currentPage: query.page, totalPages: Math.ceil(total / query.limit), totalJobs: total }),
+    salaryBaseCurrency: getExchangeRates().baseCurrency,
+    ...(query.text && { searchTerm: query.text }),
+    ...(facets && { facets })
+  });
+};
+
+// Get all jobs (with filtering and pagination)
+export const getJobs = async (req: AuthRequest, res: Response) => {
+  try {
+    await sendJobQuery(req, res);
   } catch (error) {
     console.error('Get jobs error:', error);
     res.status(500).json({
@@ -118,6 +128,20 @@ export const getJobs = async (req: AuthRequest, res: Response) => {
   }
 };
 
+// Full-text search combined with the same filters and sorts as getJobs. Unlike getJobs,
+// invalid parameters are rejected. See utils/jobQuery.ts for the supported parameters.
+export const queryJobs = async (req: AuthRequest, res: Response) => {
+  try {
+    await sendJobQuery(req, res, { strict: true });
+  } catch (error) {
+    console.error('Query jobs error:', error);
+    res.status(500).json({
+      message: 'Server error while querying jobs',
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
+
 // Get jobs posted by a specific company (for company dashboard)
 export const getCompanyJobs = async (req: AuthRequest, res: Response) => {
   try {
@@ -129,16 +153,27 @@ export const getCompanyJobs = async (req: AuthRequest, res: Response) => {
     const limit = parseInt(req.query.limit as string) || 10;
     const skip = (page - 1) * limit;
     
-    const filter = { company: req.company.id };
+    const filter: any = { company: req.company.id };
     
     // Add status filter if provided
     if (req.query.status && ['active', 'closed', 'draft'].includes(req.query.status as string)) {
-      filter['status' as keyof typeof filter] = req.query.status;
+      filter.status = req.query.status;
+    }
+
+    const sort = withTiebreaker({ postedAt: -1 });
+    const { cursor, error } = parseCursor(req.query, sort);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    if (cursor) {
+      const docs = await Job.find(afterCursor(filter, sort, cursor.after)).sort(sort).limit(cursor.limit + 1);
+      const { items, nextCursor } = cursorPage(docs, sort, cursor.limit);
+      return res.json({ jobs: items, nextCursor, limit: cursor.limit });
     }
 
     const totalJobs = await Job.countDocuments(filter);
     const jobs = await Job.find(filter)
-      .sort({ postedAt: -1 })
+      .sort(sort)
       .skip(skip)
       .limit(limit);
 
@@ -163,11 +198,13 @@ export const getJobById = async (req: AuthRequest, res: Response) => {
     const job = await Job.findById(req.params.id)
       .populate('company', 'companyName location industry description website logo');
     
-    if (!job) {
+    // Drafts and scheduled jobs stay hidden until they are published
+    if (!job || (job.status !== 'active' && !can(principalOf(req), 'read', job))) {
       return res.status(404).json({ message: 'Job not found' });
     }
     
-    res.json(job);
+    const [shown] = await withSavedFlag([job], req.user);
+    res.json(shown);
   } catch (error) {
     console.error('Get job by ID error:', error);
     res.status(500).json({
@@ -184,26 +221,46 @@ export const updateJob = async (req: AuthRequest, res: Response) => {
       return res.status(401).json({ message: 'Only companies can update jobs' });
     }
 
-    const jobId = req.params.id;
+    // Loaded and checked against the job policy by the authorize middleware
+    const job = req.resource as IJob;
 
-    // Find the job and check if it belongs to the company
-    const job = await Job.findById(jobId);
-    
-    if (!job) {
-      return res.status(404).json({ message: 'Job not found' });
+    // Jobs taken down by a moderator stay closed
+    if (job.moderation?.closedAt && req.body.status !== undefined && req.body.status !== 'closed') {
+      return res.status(403).json({
+        message: 'This job was closed by a moderator and cannot be reopened',
+        reason: job.moderation.reason
+      });
     }
-    
-    // Check if the company owns this job posting
-    if (job.company.toString() !== req.company.id) {
-      return res.status(403).json({ message: 'Not authorized to update this job posting' });
+
+    const invalidSalary = salaryError(req.body.salary);
+    if (invalidSalary) {
+      return res.status(400).json({ message: invalidSalary });
+    }
+
+    const invalidCoordinates = coordinatesError(req.body.coordinates);
+    if (invalidCoordinates) {
+      return res.status(400).json({ message: invalidCoordinates });
+    }
+
+    const nextStatus = req.body.status ?? job.status;
+    const nextDeadline = req.body.deadline !== undefined ? req.body.deadline : job.deadline;
+    // Leaving draft drops the publish date unless a new one is given (which is then rejected)
+    const nextPublishAt = req.body.publishAt !== undefined
+      ? req.body.publishAt
+      : nextStatus === 'draft' ? job.publishAt : null;
+
+    const dateError = scheduleError(nextStatus, nextPublishAt, nextDeadline);
+    if (dateError) {
+      return res.status(400).json({ message: dateError });
     }
 
     // Update the job fields
     const updateData: any = {};
+    const unsetData: any = {};
     const updateableFields = [
       'title', 'location', 'description', 'requirements', 'type',
       'salary', 'applicationLink', 'skills', 'experience',
-      'education', 'deadline', 'status'
+      'education', 'deadline', 'publishAt', 'status'
     ];
 
     updateableFields.forEach(field => {
@@ -218,12 +275,25 @@ export const updateJob = async (req: AuthRequest, res: Response) => {
       }
     });
 
-    const updatedJob = await Job.findByIdAndUpdate(
-      jobId,
-      { $set: updateData },
-      { new: true, runValidators: true }
+    if (req.body.coordinates) {
+      updateData.geo = toGeoPoint(Number(req.body.coordinates.lat), Number(req.body.coordinates.lng));
+    }
+
+    if (!nextPublishAt && job.publishAt) {
+      delete updateData.publishAt;
+      unsetData.publishAt = 1;
+    }
+
+    const updatedJob = await applyJobUpdate(
+      job,
+      { $set: updateData, ...(Object.keys(unsetData).length > 0 && { $unset: unsetData }) },
+      actorOf(req.company)
     );
 
+    if (!updatedJob) {
+      return res.status(409).json({ message: 'The job was changed in the meantime. Reload it and try again.' });
+    }
+
     res.json({
       message: 'Job updated successfully',
       job: updatedJob
@@ -244,22 +314,15 @@ export const deleteJob = async (req: AuthRequest, res: Response) => {
       return res.status(401).json({ message: 'Only companies can delete jobs' });
     }
 
-    const jobId = req.params.id;
-
-    // Find the job and check if it belongs to the company
-    const job = await Job.findById(jobId);
-    
-    if (!job) {
-      return res.status(404).json({ message: 'Job not found' });
-    }
-    
-    // Check if the company owns this job posting
-    if (job.company.toString() !== req.company.id) {
-      return res.status(403).json({ message: 'Not authorized to delete this job posting' });
-    }
+    // Loaded and checked against the job policy by the authorize middleware
+    const job = req.resource as IJob;
+    const jobId = job.id;
 
     await Job.findByIdAndDelete(jobId);
 
+    // Keep users' saved entries so they can see the job is gone
+    await SavedJob.updateMany({ job: jobId }, { $set: { jobRemovedAt: new Date() } });
+
     res.json({
       message: 'Job deleted successfully'
     });
@@ -275,41 +338,86 @@ export const deleteJob = async (req: AuthRequest, res: Response) => {
 // Search for jobs
 export const searchJobs = async (req: AuthRequest, res: Response) => {
   try {
-    const searchTerm = req.query.q as string;
-    
-    if (!searchTerm) {
-      return res.status(400).json({ message: 'Search term is required' });
-    }
-    
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
-    const skip = (page - 1) * limit;
+    await sendJobQuery(req, res, { requireText: true });
+  } catch (error) {
+    console.error('Search jobs error:', error);
+    res.status(500).json({
+      message: 'Server error while searching jobs',
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
 
-    // Use text search
-    const query = { 
-      $text: { $search: searchTerm },
-      status: 'active'
-    };
+// List the revisions of a job posting, oldest first
+export const getJobRevisions = async (req: AuthRequest, res: Response) => {
+  try {
+    // Loaded and checked against the job policy by the authorize middleware
+    const job = req.resource as IJob;
+    await ensureRevisionRecorded(job);
 
-    const totalJobs = await Job.countDocuments(query);
-    const jobs = await Job.find(query, { score: { $meta: 'textScore' } })
-      .populate('company', 'companyName location industry logo')
-      .sort({ score: { $meta: 'textScore' } })
-      .skip(skip)
-      .limit(limit);
+    const revisions = await JobRevision.find({ job: job._id })
+      .select('-snapshot')
+      .sort({ revision: 1 });
 
     res.json({
-      jobs,
-      currentPage: page,
-      totalPages: Math.ceil(totalJobs / limit),
-      totalJobs,
-      searchTerm
+      jobId: job._id,
+      currentRevision: job.revision,
+      revisions
     });
   } catch (error) {
-    console.error('Search jobs error:', error);
+    console.error('Get job revisions error:', error);
     res.status(500).json({
-      message: 'Server error while searching jobs',
+      message: 'Server error while fetching job revisions',
       error: error instanceof Error ? error.message : String(error)
     });
   }
-};
\ No newline at end of file
+};
+
+// Show a job posting as it was at ?date=, or as of ?revision=
+export const getJobAsOf = async (req: AuthRequest, res: Response) => {
+  try {
+    const job = req.resource as IJob;
+    const { date, revision } = req.query;
+
+    let found;
+    if (revision !== undefined) {
+      const number = Number(revision);
+      if (!Number.isInteger(number) || number < 1) {
+        return res.status(400).json({ message: 'revision must be a positive whole number' });
+      }
+      await ensureRevisionRecorded(job);
+      found = await JobRevision.findOne({ job: job._id, revision: number });
+    } else {
+      const asOf = new Date(date as string);
+      if (!date || isNaN(asOf.getTime())) {
+        return res.status(400).json({ message: 'A valid date or revision is required' });
+      }
+      found = await revisionAt(job, asOf);
+
+      if (!found) {
+        const historyStartsAt = await historyStart(job.id);
+        return res.status(404).json({
+          message: 'No history of this job is available for that date',
+          historyStartsAt
+        });
+      }
+    }
+
+    if (!found) {
+      return res.status(404).json({ message: 'No revision of this job matches' });
+    }
+
+    res.json({
+      jobId: job._id,
+      revision: found.revision,
+      changedAt: found.changedAt,
+      job: found.snapshot
+    });
+  } catch (error) {
+    console.error('Get job as of error:', error);
+    res.status(500).json({
+      message: 'Server error while fetching job revision',
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
@@ -0,0 +1,201 @@
+import { Response } from 'express';
+import Job, { IJob } from '../models/Job';
+import { AuthRequest } from '../middleware/auth';
+import { csvToObjects } from '../utils/csv';
+import { validateJobInput } from '../utils/jobInput';
+import { actorOf, applyJobUpdate, ensureRevisionRecorded } from '../utils/jobRevisions';
+
+const MAX_IMPORT_ROWS = 1000;
+
+// Optional fields that are cleared when a re-imported row leaves them out
+const CLEARABLE_FIELDS = ['salary', 'applicationLink', 'deadline', 'publishAt'];
+
+interface RowResult {
+    row: number;  // 1-based, not counting the CSV header
+    externalRef?: string;
+    action: 'create' | 'update' | 'error';
+    jobId?: string;
+    errors?: string[];
+}
+
+// CSV has no nesting: salary and coordinates get their own columns and
+// requirements are separated by "|" (skills stay comma separated, as in createJob)
+const fromCsvRecord = (record: Record<string, string>): Record<string, unknown> => {
+    const { salaryMin, salaryMax, salaryCurrency, salaryPeriod, lat, lng, requirements, ...fields } = record;
+    const hasSalary = [salaryMin, salaryMax, salaryCurrency, salaryPeriod].some(value => value !== undefined);
+
+    return {
+        ...fields,
+        ...(requirements && { requirements: requirements.split('|').map(item => item.trim()).filter(Boolean) }),
+        ...(hasSalary && {
+            salary: {
+                ...(salaryMin !== undefined && { min: Number(salaryMin) }),
+                ...(salaryMax !== undefined && { max: Number(salaryMax) }),
+                ...(salaryCurrency && { currency: salaryCurrency }),
+                ...(salaryPeriod && { period: salaryPeriod })
+            }
+        }),
+        ...((lat !== undefined || lng !== undefined) && { coordinates: { lat, lng } })
+    };
+};
+
+// Read the uploaded file into job records. JSON may be an array or { "jobs": [...] }.
+const readRecords = (file: Express.Multer.File): { records?: Record<string, unknown>[]; error?: string } => {
+    const name = file.originalname.toLowerCase();
+    const text = file.buffer.toString('utf8');
+
+    if (name.endsWith('.json') || file.mimetype === 'application/json') {
+        let data: unknown;
+        try {
+            data = JSON.parse(text);
+        } catch {
+            return { error: 'The file is not valid JSON' };
+        }
+        const records = Array.isArray(data) ? data : (data as { jobs?: unknown })?.jobs;
+        if (!Array.isArray(records) || records.some(record => !record || typeof record !== 'object' || Array.isArray(record))) {
+            return { error: 'JSON imports must be an array of job objects' };
+        }
+        return { records };
+    }
+
+    if (name.endsWith('.csv') || file.mimetype === 'text/csv') {
+        try {
+            return { records: csvToObjects(text).map(fromCsvRecord) };
+        } catch (error) {
+            return { error: `The file is not valid CSV: ${error instanceof Error ? error.message : String(error)}` };
+        }
+    }
+
+    return { error: 'Only CSV and JSON files can be imported' };
+};
+
+// Import jobs from an uploaded CSV or JSON file (field "file"). Rows with an externalRef
+// update the company's job with that reference if there is one. With ?dryRun=true nothing
+// is saved and the response shows what would happen to each row.
+export const importJobs = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.company) {
+            return res.status(401).json({ message: 'Only companies can import jobs' });
+        }
+
+        if (!req.file) {
+            return res.status(400).json({ message: 'No file uploaded' });
+        }
+
+        const { records, error } = readRecords(req.file);
+        if (!records) {
+            return res.status(400).json({ message: error });
+        }
+        if (records.length === 0) {
+            return res.status(400).json({ message: 'The file contains no jobs' });
+        }
+        if (records.length > MAX_IMPORT_ROWS) {
+            return res.status(400).json({ message: `At most ${MAX_IMPORT_ROWS} jobs can be imported at once` });
+        }
+
+        const dryRun = req.query.dryRun === 'true';
+        const actor = actorOf(req.company);
+        const companyId = req.company.id;
+
+        // Load the jobs that re-imported rows refer to in one go
+        const refs = records
+            .map(record => record.externalRef)
+            .filter((ref): ref is string => typeof ref === 'string')
+            .map(ref => ref.trim());
+        const existing = await Job.find({ company: companyId, externalRef: { $in: refs } });
+        const jobsByRef = new Map<string, IJob>(existing.map(job => [job.externalRef as string, job]));
+        const seenRefs = new Set<string>();
+
+        const results: RowResult[] = [];
+
+        for (const [index, record] of records.entries()) {
+            const result: RowResult = { row: index + 1, action: 'error' };
+            results.push(result);
+
+            // Rows for jobs that already exist keep their status unless they set one
+            const ref = typeof record.externalRef === 'string' ? record.externalRef.trim() : undefined;
+            const current = ref ? jobsByRef.get(ref) : undefined;
+
+            const { input, missing, error: inputError } = validateJobInput(record, { currentStatus: current?.status });
+            if (!input) {
+                result.errors = [missing ? `Missing required fields: ${missing.join(', ')}` : inputError as string];
+                continue;
+            }
+
+            const externalRef = input.externalRef as string | undefined;
+            result.externalRef = externalRef;
+
+            // Catch schema errors (enums, casts) before anything is written
+            const validation = new Job({ ...input, company: companyId }).validateSync();
+            if (validation) {
+                result.errors = Object.values(validation.errors).map(fieldError => fieldError.message);
+                continue;
+            }
+
+            if (externalRef && seenRefs.has(externalRef)) {
+                result.errors = [`externalRef ${externalRef} appears more than once in the file`];
+                continue;
+            }
+            if (externalRef) {
+                seenRefs.add(externalRef);
+            }
+
+            if (current?.moderation?.closedAt && input.status !== undefined && input.status !== 'closed') {
+                result.errors = ['This job was closed by a moderator and cannot be reopened'];
+                continue;
+            }
+
+            result.action = current ? 'update' : 'create';
+            if (dryRun) {
+                result.jobId = current?.id;
+                continue;
+            }
+
+            try {
+                if (current) {
+                    const set = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+                    const unset = Object.fromEntries(
+                        CLEARABLE_FIELDS.filter(field => input[field] === undefined && current.get(field) != null).map(field => [field, 1 as const])
+                    );
+                    const updated = await applyJobUpdate(
+                        current,
+                        { $set: set, ...(Object.keys(unset).length > 0 && { $unset: unset }) },
+                        actor
+                    );
+                    if (!updated) {
+                        throw new Error('The job was changed during the import');
+                    }
+                    result.jobId = updated.id;
+                } else {
+                    const job = new Job({ ...input, company: companyId });
+                    await job.save();
+                    await ensureRevisionRecorded(job, actor);
+                    result.jobId = job.id;
+                }
+            } catch (rowError) {
+                result.action = 'error';
+                result.errors = [rowError instanceof Error ? rowError.message : String(rowError)];
+            }
+        }
+
+        const count = (action: RowResult['action']) => results.filter(result => result.action === action).length;
+
+        res.json({
+            message: dryRun ? 'Dry run finished, no jobs were saved' : 'Import finished',
+            dryRun,
+            summary: {
+                total: results.length,
+                created: count('create'),
+                updated: count('update'),
+                failed: count('error')
+            },
+            rows: results
+        });
+    } catch (error) {
+        console.error('Import jobs error:', error);
+        res.status(500).json({
+            message: 'Server error while importing jobs',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
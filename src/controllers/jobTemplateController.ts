@@ -0,0 +1,215 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import JobTemplate, { IJobTemplate } from '../models/JobTemplate';
+import Job, { JOB_TYPES } from '../models/Job';
+import { AuthRequest } from '../middleware/auth';
+import { can } from '../policies';
+import { salaryError } from '../utils/salary';
+import { fillTemplate, pickTemplateFields, variablesIn, TEMPLATE_FIELDS } from '../utils/jobTemplates';
+import { createJob } from './jobController';
+
+// Validate template fields from a request body and normalize them like createJob does.
+// Returns the fields, or an error message.
+const templateFieldsFrom = (body: Record<string, any>): { fields?: Record<string, unknown>; error?: string } => {
+    const fields = pickTemplateFields(body);
+
+    if (fields.type !== undefined && !JOB_TYPES.includes(fields.type as typeof JOB_TYPES[number])) {
+        return { error: `type must be one of ${JOB_TYPES.join(', ')}` };
+    }
+
+    const invalidSalary = salaryError(fields.salary);
+    if (invalidSalary) {
+        return { error: invalidSalary };
+    }
+
+    if (typeof fields.skills === 'string') {
+        fields.skills = fields.skills.split(',').map(skill => skill.trim());
+    }
+    if (typeof fields.requirements === 'string') {
+        fields.requirements = [fields.requirements];
+    }
+
+    return { fields };
+};
+
+const isDuplicateName = (error: unknown) => (error as { code?: number }).code === 11000;
+
+// Create a template from scratch, or from one of the company's jobs given as fromJob.
+// Fields in the body override the ones copied from the job.
+export const createTemplate = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.company) {
+            return res.status(401).json({ message: 'Only companies can create job templates' });
+        }
+
+        const { name, fromJob } = req.body;
+        if (!name) {
+            return res.status(400).json({
+                message: 'Missing required fields',
+                required: ['name'],
+                received: Object.keys(req.body)
+            });
+        }
+
+        const { fields, error } = templateFieldsFrom(req.body);
+        if (!fields) {
+            return res.status(400).json({ message: error });
+        }
+
+        let source: Record<string, unknown> = {};
+        if (fromJob !== undefined) {
+            if (!mongoose.Types.ObjectId.isValid(fromJob)) {
+                return res.status(400).json({ message: 'Invalid job ID format' });
+            }
+            const job = await Job.findById(fromJob);
+            if (!job) {
+                return res.status(404).json({ message: 'Job not found' });
+            }
+            if (!can(req.company, 'duplicate', job)) {
+                return res.status(403).json({ message: 'You can only create templates from your own jobs' });
+            }
+            if (job.moderation?.closedAt) {
+                return res.status(403).json({
+                    message: 'This job was closed by a moderator and cannot be copied',
+                    reason: job.moderation.reason
+                });
+            }
+            source = pickTemplateFields(job.toObject());
+        }
+
+        const content = { ...source, ...fields };
+        const template = await JobTemplate.create({
+            ...content,
+            company: req.company.id,
+            name,
+            variables: variablesIn(content)
+        });
+
+        res.status(201).json({
+            message: 'Job template created successfully',
+            template
+        });
+    } catch (error) {
+        if (isDuplicateName(error)) {
+            return res.status(409).json({ message: 'A template with this name already exists' });
+        }
+        console.error('Create job template error:', error);
+        res.status(500).json({
+            message: 'Server error while creating job template',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// List the company's templates
+export const listTemplates = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.company) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const templates = await JobTemplate.find({ company: req.company.id }).sort({ name: 1 });
+
+        res.json({ templates });
+    } catch (error) {
+        console.error('List job templates error:', error);
+        res.status(500).json({
+            message: 'Server error while fetching job templates',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+export const getTemplate = (req: AuthRequest, res: Response) => {
+    // Loaded and checked against the template policy by the authorize middleware
+    res.json(req.resource as IJobTemplate);
+};
+
+// Replace the fields given in the body. Send null to clear a field.
+export const updateTemplate = async (req: AuthRequest, res: Response) => {
+    try {
+        const template = req.resource as IJobTemplate;
+
+        const { fields, error } = templateFieldsFrom(req.body);
+        if (!fields) {
+            return res.status(400).json({ message: error });
+        }
+
+        if (req.body.name !== undefined) {
+            if (!req.body.name) {
+                return res.status(400).json({ message: 'name cannot be empty' });
+            }
+            template.name = req.body.name;
+        }
+
+        template.set(fields);
+        TEMPLATE_FIELDS.forEach(field => {
+            if (req.body[field] === null) {
+                template.set(field, undefined);
+            }
+        });
+        template.variables = variablesIn(template.toObject());
+
+        await template.save();
+
+        res.json({
+            message: 'Job template updated successfully',
+            template
+        });
+    } catch (error) {
+        if (isDuplicateName(error)) {
+            return res.status(409).json({ message: 'A template with this name already exists' });
+        }
+        console.error('Update job template error:', error);
+        res.status(500).json({
+            message: 'Server error while updating job template',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+export const deleteTemplate = async (req: AuthRequest, res: Response) => {
+    try {
+        const template = req.resource as IJobTemplate;
+        await JobTemplate.deleteOne({ _id: template._id });
+
+        res.json({ message: 'Job template deleted successfully' });
+    } catch (error) {
+        console.error('Delete job template error:', error);
+        res.status(500).json({
+            message: 'Server error while deleting job template',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Create a job from a template. body.variables fills the {{variables}}; any other job
+// field in the body (including status, deadline and publishAt) overrides the template.
+export const createJobFromTemplate = async (req: AuthRequest, res: Response) => {
+    try {
+        const template = req.resource as IJobTemplate;
+        const { variables, ...overrides } = req.body ?? {};
+
+        if (variables !== undefined && (typeof variables !== 'object' || variables === null || Array.isArray(variables))) {
+            return res.status(400).json({ message: 'variables must be an object of name/value pairs' });
+        }
+
+        const filled = fillTemplate(pickTemplateFields(template.toObject()), variables);
+        if (filled.missing) {
+            return res.status(400).json({ message: 'Missing template variables', missing: filled.missing });
+        }
+        if (!filled.fields) {
+            return res.status(400).json({ message: filled.error });
+        }
+
+        // Hand over to createJob so templated jobs go through the same validation
+        req.body = { ...filled.fields, ...overrides };
+        return createJob(req, res);
+    } catch (error) {
+        console.error('Create job from template error:', error);
+        res.status(500).json({
+            message: 'Server error while creating job from template',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
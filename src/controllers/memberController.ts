@@ -0,0 +1,452 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Company from '../models/Company';
+import CompanyMember, { CompanyRole, MemberRole } from '../models/CompanyMember';
+import { AuthRequest } from '../middleware/auth';
+import { issueAccountToken, consumeAccountToken } from '../utils/accountTokens';
+import { sendMail, clientUrl } from '../utils/mail';
+import { validatePassword } from '../utils/passwordPolicy';
+import { checkLoginAllowed, loginThrottleKey, recordLoginFailure, recordLoginSuccess, sendLoginBlocked, sendUnlockEmail, unlockWithToken } from '../utils/loginThrottle';
+import { createSession, revokeMemberSessions, signTwoFactorChallenge, sessionClient } from '../utils/tokens';
+
+const INVITATION_TTL_MINUTES = 7 * 24 * 60;
+const MEMBER_ROLES: MemberRole[] = ['admin', 'recruiter', 'viewer'];
+
+// Owners manage everyone; admins only manage recruiters and viewers
+const canManageRole = (actorRole: CompanyRole | undefined, targetRole: MemberRole): boolean => {
+    if (actorRole === 'owner') return true;
+    if (actorRole === 'admin') return targetRole === 'recruiter' || targetRole === 'viewer';
+    return false;
+};
+
+const formatMember = (member: any) => ({
+    id: member._id,
+    email: member.email,
+    name: member.name,
+    role: member.role,
+    status: member.status,
+    joinedAt: member.joinedAt,
+    createdAt: member.createdAt
+});
+
+// List the hiring team of the authenticated company
+export const listMembers = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.company) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const company = await Company.findById(req.company.id).select('companyName email');
+        if (!company) {
+            return res.status(404).json({ message: 'Company not found' });
+        }
+
+        const members = await CompanyMember.find({ company: req.company.id })
+            .select('-password')
+            .sort({ createdAt: 1 });
+
+        res.json({
+            owner: {
+                email: company.email,
+                role: 'owner'
+            },
+            members: members.map(formatMember)
+        });
+    } catch (error) {
+        console.error('List members error:', error);
+        res.status(500).json({
+            message: 'Server error while fetching team members',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Invite someone to join the company's hiring team (owner/admin)
+export const inviteMember = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.company) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const { email, role } = req.body;
+
+        if (!email || !role) {
+            return res.status(400).json({
+                message: 'Missing required fields',
+                required: ['email', 'role'],
+                received: Object.keys(req.body)
+            });
+        }
+
+        if (!MEMBER_ROLES.includes(role)) {
+            return res.status(400).json({
+                message: 'Invalid role',
+                allowedValues: MEMBER_ROLES
+            });
+        }
+
+        if (!canManageRole(req.company.role, role)) {
+            return res.status(403).json({ message: `Your role cannot invite members as ${role}` });
+        }
+
+        const company = await Company.findById(req.company.id);
+        if (!company) {
+            return res.status(404).json({ message: 'Company not found' });
+        }
+
+        let member = await CompanyMember.findOne({ email });
+
+        if (member && (member.status === 'active' || member.company.toString() !== req.company.id)) {
+            return res.status(400).json({ message: 'This email already belongs to a team member' });
+        }
+
+        // Re-inviting a pending member refreshes the role and sends a new link
+        if (member) {
+            member.role = role;
+        } else {
+            member = new CompanyMember({
+                company: req.company.id,
+                email,
+                role,
+                invitedBy: req.company.memberId
+            });
+        }
+
+        await member.save();
+
+        const token = await issueAccountToken(member.id, 'CompanyMember', 'member-invitation', INVITATION_TTL_MINUTES);
+        const invitationLink = clientUrl('/accept-invitation', { token });
+
+        await sendMail({
+            to: member.email,
+            subject: `You have been invited to join ${company.companyName}`,
+            text: `You have been invited to join the ${company.companyName} hiring team as ${role}.\n\n` +
+                `Open the link below to set up your account. It expires in 7 days.\n\n${invitationLink}`
+        });
+
+        res.status(201).json({
+            message: 'Invitation sent successfully',
+            member: formatMember(member)
+        });
+    } catch (error) {
+        console.error('Invite member error:', error);
+        res.status(500).json({
+            message: 'Server error while inviting team member',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Accept an invitation by choosing a name and password
+export const acceptInvitation = async (req: Request, res: Response) => {
+    try {
+        const { token, name, password } = req.body;
+
+        if (!token || !name || !password) {
+            return res.status(400).json({
+                message: 'Missing required fields',
+                required: ['token', 'name', 'password'],
+                received: Object.keys(req.body)
+            });
+        }
+
+        const passwordErrors = validatePassword(password);
+        if (passwordErrors.length > 0) {
+            return res.status(400).json({
+                message: 'Password does not meet requirements',
+                errors: passwordErrors
+            });
+        }
+
+        const invitation = await consumeAccountToken(token, 'CompanyMember', 'member-invitation');
+        if (!invitation) {
+            return res.status(400).json({ message: 'Invalid or expired invitation' });
+        }
+
+        const member = await CompanyMember.findById(invitation.accountId);
+        if (!member || member.status !== 'invited') {
+            return res.status(400).json({ message: 'Invalid or expired invitation' });
+        }
+
+        member.name = name;
+        member.password = password;
+        member.status = 'active';
+        member.joinedAt = new Date();
+        await member.save();
+
+        const { token: accessToken, refreshToken, expiresIn } = await createSession(
+            member.company,
+            'Company',
+            { memberId: member.id, role: member.role, ...sessionClient(req) }
+        );
+
+        res.json({
+            message: 'Invitation accepted successfully',
+            token: accessToken,
+            refreshToken,
+            expiresIn,
+            member: formatMember(member)
+        });
+    } catch (error) {
+        console.error('Accept invitation error:', error);
+        res.status(500).json({
+            message: 'Server error while accepting invitation',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Login a company team member
+export const memberLogin = async (req: Request, res: Response) => {
+    try {
+        const { email, password } = req.body;
+
+        if (!email || !password) {
+            return res.status(400).json({
+                message: 'Email and password are required',
+                received: Object.keys(req.body)
+            });
+        }
+
+        // Refuse early when this account or this IP has too many recent failures
+        const throttleKey = loginThrottleKey('CompanyMember', email);
+        const block = await checkLoginAllowed(throttleKey, req.ip);
+        if (block) {
+            return sendLoginBlocked(res, block);
+        }
+
+        const member = await CompanyMember.findOne({ email, status: 'active' });
+        if (!member) {
+            const lock = await recordLoginFailure(throttleKey, req.ip);
+            if (lock) {
+                return sendLoginBlocked(res, lock);
+            }
+            return res.status(401).json({ message: 'Invalid login credentials' });
+        }
+
+        const isMatch = await member.comparePassword(password);
+        if (!isMatch) {
+            const lock = await recordLoginFailure(throttleKey, req.ip);
+            if (lock) {
+                await sendUnlockEmail(member.id, 'CompanyMember', member.email);
+                return sendLoginBlocked(res, lock);
+            }
+            return res.status(401).json({ message: 'Invalid login credentials' });
+        }
+
+        await recordLoginSuccess(throttleKey);
+
+        const company = await Company.findById(member.company);
+        if (!company) {
+            return res.status(401).json({ message: 'Invalid login credentials' });
+        }
+
+        if (company.suspendedAt) {
+            return res.status(403).json({ message: 'This account has been suspended' });
+        }
+
+        // A second factor is required before any session is started
+        if (member.twoFactor?.enabled) {
+            return res.json({
+                message: 'Two-factor authentication required',
+                twoFactorRequired: true,
+                challengeToken: signTwoFactorChallenge({ id: member.id, accountType: 'CompanyMember' })
+            });
+        }
+
+        const { token, refreshToken, expiresIn } = await createSession(
+            company.id,
+            'Company',
+            { memberId: member.id, role: member.role, ...sessionClient(req) }
+        );
+
+        res.json({
+            message: 'Login successful',
+            token,
+            refreshToken,
+            expiresIn,
+            member: formatMember(member),
+            company: {
+                id: company._id,
+                companyName: company.companyName,
+                industry: company.industry,
+                location: company.location
+            }
+        });
+    } catch (error) {
+        console.error('Member login error:', error);
+        res.status(500).json({
+            message: 'Server error during member login',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Unlock a team member account locked after too many failed logins
+export const unlockAccount = async (req: Request, res: Response) => {
+    try {
+        const { token } = req.body;
+
+        if (!token) {
+            return res.status(400).json({ message: 'Unlock token is required' });
+        }
+
+        const unlocked = await unlockWithToken(token, 'CompanyMember');
+        if (!unlocked) {
+            return res.status(400).json({ message: 'Invalid or expired unlock token' });
+        }
+
+        res.json({ message: 'Account unlocked successfully' });
+    } catch (error) {
+        console.error('Member unlock account error:', error);
+        res.status(500).json({
+            message: 'Server error while unlocking account',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Change a team member's role (owner/admin)
+export const updateMemberRole = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.company) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const { memberId } = req.params;
+        const { role } = req.body;
+
+        if (!mongoose.Types.ObjectId.isValid(memberId)) {
+            return res.status(400).json({ message: 'Invalid member ID format' });
+        }
+
+        if (!MEMBER_ROLES.includes(role)) {
+            return res.status(400).json({
+                message: 'Invalid role',
+                allowedValues: MEMBER_ROLES
+            });
+        }
+
+        const member = await CompanyMember.findOne({ _id: memberId, company: req.company.id });
+        if (!member) {
+            return res.status(404).json({ message: 'Team member not found' });
+        }
+
+        if (!canManageRole(req.company.role, member.role) || !canManageRole(req.company.role, role)) {
+            return res.status(403).json({ message: 'Your role cannot change this member to that role' });
+        }
+
+        member.role = role;
+        await member.save();
+
+        // Tokens carry the role, so the member has to sign in again to pick up the new one
+        await revokeMemberSessions(member.id);
+
+        res.json({
+            message: 'Member role updated successfully',
+            member: formatMember(member)
+        });
+    } catch (error) {
+        console.error('Update member role error:', error);
+        res.status(500).json({
+            message: 'Server error while updating member role',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Remove a team member (owner/admin)
+export const removeMember = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.company) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const { memberId } = req.params;
+
+        if (!mongoose.Types.ObjectId.isValid(memberId)) {
+            return res.status(400).json({ message: 'Invalid member ID format' });
+        }
+
+        const member = await CompanyMember.findOne({ _id: memberId, company: req.company.id });
+        if (!member) {
+            return res.status(404).json({ message: 'Team member not found' });
+        }
+
+        if (!canManageRole(req.company.role, member.role)) {
+            return res.status(403).json({ message: 'Your role cannot remove this member' });
+        }
+
+        await CompanyMember.findByIdAndDelete(member._id);
+        await revokeMemberSessions(member.id);
+
+        res.json({ message: 'Team member removed successfully' });
+    } catch (error) {
+        console.error('Remove member error:', error);
+        res.status(500).json({
+            message: 'Server error while removing team member',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Change the password of the authenticated team member
+export const changeMemberPassword = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.company || !req.company.memberId) {
+            return res.status(403).json({ message: 'Only team members can use this endpoint' });
+        }
+
+        const { currentPassword, newPassword } = req.body;
+
+        if (!currentPassword || !newPassword) {
+            return res.status(400).json({
+                message: 'Current password and new password are required',
+                received: Object.keys(req.body)
+            });
+        }
+
+        const passwordErrors = validatePassword(newPassword);
+        if (passwordErrors.length > 0) {
+            return res.status(400).json({
+                message: 'Password does not meet requirements',
+                errors: passwordErrors
+            });
+        }
+
+        const member = await CompanyMember.findById(req.company.memberId);
+        if (!member) {
+            return res.status(404).json({ message: 'Team member not found' });
+        }
+
+        const isMatch = await member.comparePassword(currentPassword);
+        if (!isMatch) {
+            return res.status(401).json({ message: 'Current password is incorrect' });
+        }
+
+        // The pre('save') hook hashes the new password
+        member.password = newPassword;
+        await member.save();
+
+        // Sign out every existing session, then keep the current client signed in with a fresh one
+        await revokeMemberSessions(member.id);
+        const { token, refreshToken, expiresIn } = await createSession(
+            member.company,
+            'Company',
+            { memberId: member.id, role: member.role, ...sessionClient(req) }
+        );
+
+        res.json({
+            message: 'Password changed successfully',
+            token,
+            refreshToken,
+            expiresIn
+        });
+    } catch (error) {
+        console.error('Change member password error:', error);
+        res.status(500).json({
+            message: 'Server error while changing password',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
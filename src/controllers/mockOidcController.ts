@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { MOCK_CLIENT_ID, mockIssuer } from '../config/oidc';
+import { codeChallengeFor, randomToken } from '../utils/oidc';
+
+// A minimal OpenID Connect provider for development and tests. It signs in whoever is
+// named in login_hint without asking, so it is only mounted when OIDC_MOCK_ENABLED=true.
+
+const CODE_TTL_MS = 60 * 1000;
+const KEY_ID = 'mock-key-1';
+
+interface PendingCode {
+    redirectUri: string;
+    codeChallenge: string;
+    nonce?: string;
+    email: string;
+    emailVerified: boolean;
+    name: string;
+    expiresAt: number;
+}
+
+const pendingCodes = new Map<string, PendingCode>();
+
+let keyPair: crypto.KeyPairKeyObjectResult | null = null;
+const getKeyPair = (): crypto.KeyPairKeyObjectResult => {
+    if (!keyPair) {
+        keyPair = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    }
+    return keyPair;
+};
+
+const oauthError = (res: Response, error: string, description: string) =>
+    res.status(400).json({ error, error_description: description });
+
+export const discovery = (_req: Request, res: Response) => {
+    const issuer = mockIssuer();
+    res.json({
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+        scopes_supported: ['openid', 'email', 'profile']
+    });
+};
+
+export const jwks = (_req: Request, res: Response) => {
+    res.json({
+        keys: [{ ...getKeyPair().publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }]
+    });
+};
+
+// Approves immediately and redirects back with a code.
+// ?login_hint= picks the email, ?name= the display name and ?email_verified=false an unverified address.
+export const authorize = (req: Request, res: Response) => {
+    const query = req.query as Record<string, string | undefined>;
+
+    if (query.response_type !== 'code') {
+        return oauthError(res, 'unsupported_response_type', 'Only the authorization code flow is supported');
+    }
+    if (query.client_id !== MOCK_CLIENT_ID) {
+        return oauthError(res, 'unauthorized_client', 'Unknown client');
+    }
+    if (!query.redirect_uri) {
+        return oauthError(res, 'invalid_request', 'redirect_uri is required');
+    }
+    if (!query.code_challenge || query.code_challenge_method !== 'S256') {
+        return oauthError(res, 'invalid_request', 'PKCE with S256 is required');
+    }
+
+    const email = (query.login_hint || 'candidate@example.com').toLowerCase();
+    const code = randomToken();
+
+    pendingCodes.set(code, {
+        redirectUri: query.redirect_uri,
+        codeChallenge: query.code_challenge,
+        nonce: query.nonce,
+        email,
+        emailVerified: query.email_verified !== 'false',
+        name: query.name || 'Mock Candidate',
+        expiresAt: Date.now() + CODE_TTL_MS
+    });
+
+    const redirect = new URL(query.redirect_uri);
+    redirect.searchParams.set('code', code);
+    if (query.state) {
+        redirect.searchParams.set('state', query.state);
+    }
+
+    res.redirect(redirect.toString());
+};
+
+export const token = (req: Request, res: Response) => {
+    const { grant_type, code, redirect_uri, client_id, code_verifier } = req.body || {};
+
+    if (grant_type !== 'authorization_code') {
+        return oauthError(res, 'unsupported_grant_type', 'Only authorization_code is supported');
+    }
+    if (client_id !== MOCK_CLIENT_ID) {
+        return oauthError(res, 'invalid_client', 'Unknown client');
+    }
+
+    const pending = pendingCodes.get(code);
+    pendingCodes.delete(code);
+
+    if (!pending || pending.expiresAt < Date.now() || pending.redirectUri !== redirect_uri) {
+        return oauthError(res, 'invalid_grant', 'Invalid or expired authorization code');
+    }
+    if (!code_verifier || codeChallengeFor(code_verifier) !== pending.codeChallenge) {
+        return oauthError(res, 'invalid_grant', 'PKCE verification failed');
+    }
+
+    const [givenName, ...familyName] = pending.name.split(' ');
+    const idToken = jwt.sign(
+        {
+            email: pending.email,
+            email_verified: pending.emailVerified,
+            name: pending.name,
+            given_name: givenName,
+            family_name: familyName.join(' ') || undefined,
+            ...(pending.nonce && { nonce: pending.nonce })
+        },
+        getKeyPair().privateKey,
+        {
+            algorithm: 'RS256',
+            keyid: KEY_ID,
+            issuer: mockIssuer(),
+            audience: MOCK_CLIENT_ID,
+            subject: `mock-${crypto.createHash('sha256').update(pending.email).digest('hex').slice(0, 16)}`,
+            expiresIn: '5m'
+        }
+    );
+
+    res.json({
+        access_token: randomToken(),
+        token_type: 'Bearer',
+        expires_in: 300,
+        id_token: idToken
+    });
+};
@@ -0,0 +1,184 @@
+import { Request, Response } from 'express';
+import User from '../models/User';
+import OidcLoginState from '../models/OidcLoginState';
+import { getOidcProvider, getOidcProviders } from '../config/oidc';
+import { buildAuthorizationUrl, codeChallengeFor, discover, exchangeCode, randomToken, verifyIdToken, OidcClaims } from '../utils/oidc';
+import { createSession, hashToken, sessionClient, signTwoFactorChallenge } from '../utils/tokens';
+
+const LOGIN_STATE_TTL_MINUTES = 10;
+
+// Names for a new account, falling back to the email address when the provider shares none
+const namesFromClaims = (claims: OidcClaims, email: string): { firstName: string; lastName: string } => {
+    const [first, ...rest] = (claims.name || '').trim().split(/\s+/);
+    return {
+        firstName: claims.given_name || first || email.split('@')[0],
+        lastName: claims.family_name || rest.join(' ') || '-'
+    };
+};
+
+// List the identity providers users can sign in with
+export const listProviders = async (_req: Request, res: Response) => {
+    res.json({
+        providers: getOidcProviders().map(provider => ({ name: provider.name }))
+    });
+};
+
+// Start a login: remember the PKCE verifier and nonce, then send the browser to the provider.
+// Returns the URL as JSON, or redirects when called with ?redirect=true.
+export const startLogin = async (req: Request, res: Response) => {
+    try {
+        const provider = getOidcProvider(req.params.provider);
+        if (!provider) {
+            return res.status(404).json({ message: 'Unknown identity provider' });
+        }
+
+        const metadata = await discover(provider);
+
+        const state = randomToken();
+        const nonce = randomToken();
+        const codeVerifier = randomToken();
+
+        await OidcLoginState.create({
+            stateHash: hashToken(state),
+            provider: provider.name,
+            codeVerifier,
+            nonce,
+            expiresAt: new Date(Date.now() + LOGIN_STATE_TTL_MINUTES * 60 * 1000)
+        });
+
+        const authorizationUrl = buildAuthorizationUrl(provider, metadata, {
+            state,
+            nonce,
+            codeChallenge: codeChallengeFor(codeVerifier),
+            loginHint: typeof req.query.loginHint === 'string' ? req.query.loginHint : undefined
+        });
+
+        if (req.query.redirect === 'true') {
+            return res.redirect(authorizationUrl);
+        }
+
+        res.json({ authorizationUrl, state });
+    } catch (error) {
+        console.error('OIDC start login error:', error);
+        res.status(500).json({
+            message: 'Server error while starting sign-in',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Finish a login with the code and state the provider sent back to the redirect URI.
+// Signs in the linked user, links a verified email to an existing user, or creates one.
+export const completeLogin = async (req: Request, res: Response) => {
+    try {
+        const { code, state } = req.body;
+
+        if (!code || !state) {
+            return res.status(400).json({
+                message: 'Missing required fields',
+                required: ['code', 'state'],
+                received: Object.keys(req.body)
+            });
+        }
+
+        if (typeof code !== 'string' || typeof state !== 'string') {
+            return res.status(400).json({ message: 'code and state must be strings' });
+        }
+
+        const provider = getOidcProvider(req.params.provider);
+        if (!provider) {
+            return res.status(404).json({ message: 'Unknown identity provider' });
+        }
+
+        // Each state can be used once
+        const loginState = await OidcLoginState.findOneAndDelete({
+            stateHash: hashToken(state),
+            provider: provider.name,
+            expiresAt: { $gt: new Date() }
+        });
+        if (!loginState) {
+            return res.status(400).json({ message: 'Invalid or expired sign-in state' });
+        }
+
+        let claims: OidcClaims;
+        try {
+            const metadata = await discover(provider);
+            const idToken = await exchangeCode(provider, metadata, code, loginState.codeVerifier);
+            claims = await verifyIdToken(provider, metadata, idToken, loginState.nonce);
+        } catch (error) {
+            console.error('OIDC token exchange error:', error);
+            return res.status(401).json({ message: 'Sign-in with the identity provider failed' });
+        }
+
+        const email = claims.email?.trim().toLowerCase();
+        let user = await User.findOne({
+            identities: { $elemMatch: { provider: provider.name, subject: claims.sub } }
+        });
+        let created = false;
+
+        if (!user) {
+            // Only an address the provider has verified may be linked or used for a new account
+            if (!email || claims.email_verified !== true) {
+                return res.status(400).json({ message: 'The identity provider did not share a verified email address' });
+            }
+
+            const identity = { provider: provider.name, subject: claims.sub, email, linkedAt: new Date() };
+            user = await User.findOne({ email });
+
+            if (user) {
+                user.identities = [...(user.identities || []), identity];
+                if (user.emailVerified === false) {
+                    user.emailVerified = true;
+                    user.emailVerifiedAt = new Date();
+                }
+                await user.save();
+            } else {
+                user = await User.create({
+                    ...namesFromClaims(claims, email),
+                    email,
+                    identities: [identity],
+                    emailVerified: true,
+                    emailVerifiedAt: new Date()
+                });
+                created = true;
+            }
+        }
+
+        if (user.suspendedAt) {
+            return res.status(403).json({ message: 'This account has been suspended' });
+        }
+
+        // The provider replaces the password, not the second factor
+        if (user.twoFactor?.enabled) {
+            return res.json({
+                message: 'Two-factor authentication required',
+                twoFactorRequired: true,
+                challengeToken: signTwoFactorChallenge({ id: user.id, accountType: 'User' })
+            });
+        }
+
+        const { token, refreshToken, expiresIn } = await createSession(user.id, 'User', sessionClient(req));
+
+        res.status(created ? 201 : 200).json({
+            message: 'Login successful',
+            token,
+            refreshToken,
+            expiresIn,
+            user: {
+                id: user._id,
+                firstName: user.firstName,
+                lastName: user.lastName,
+                email: user.email,
+                location: user.location,
+                skills: user.skills,
+                emailVerified: user.emailVerified !== false
+            }
+        });
+    } catch (error) {
+        console.error('OIDC complete login error:', error);
+        res.status(500).json({
+            message: 'Server error while completing sign-in',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
@@ -0,0 +1,94 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Report from '../models/Report';
+import Job from '../models/Job';
+import Company from '../models/Company';
+import User from '../models/User';
+import { AuthRequest, principalOf } from '../middleware/auth';
+
+const TARGET_MODELS: Record<string, mongoose.Model<any>> = {
+    Job,
+    Company,
+    User
+};
+
+const REPORT_REASONS = ['scam', 'spam', 'offensive', 'discrimination', 'other'];
+
+// Flag a job, company or user for moderator review
+export const createReport = async (req: AuthRequest, res: Response) => {
+    try {
+        const { targetType, targetId, reason, details } = req.body;
+
+        if (!targetType || !targetId || !reason) {
+            return res.status(400).json({
+                message: 'Missing required fields',
+                required: ['targetType', 'targetId', 'reason'],
+                received: Object.keys(req.body)
+            });
+        }
+
+        if (!TARGET_MODELS[targetType]) {
+            return res.status(400).json({
+                message: 'Invalid target type',
+                allowedValues: Object.keys(TARGET_MODELS)
+            });
+        }
+
+        if (!REPORT_REASONS.includes(reason)) {
+            return res.status(400).json({
+                message: 'Invalid reason',
+                allowedValues: REPORT_REASONS
+            });
+        }
+
+        if (!mongoose.Types.ObjectId.isValid(targetId)) {
+            return res.status(400).json({ message: 'Invalid target ID format' });
+        }
+
+        const target = await TARGET_MODELS[targetType].exists({ _id: targetId });
+        if (!target) {
+            return res.status(404).json({ message: `${targetType} not found` });
+        }
+
+        const principal = principalOf(req);
+        if (!principal || principal.kind === 'admin') {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const reporter = {
+            reporter: principal.id,
+            reporterType: principal.kind === 'user' ? 'User' : 'Company'
+        };
+
+        // One open report per reporter and target is enough
+        const existing = await Report.findOne({ ...reporter, targetType, target: targetId, status: 'open' });
+        if (existing) {
+            return res.status(400).json({ message: 'You have already reported this' });
+        }
+
+        const report = await Report.create({
+            ...reporter,
+            targetType,
+            target: targetId,
+            reason,
+            details
+        });
+
+        res.status(201).json({
+            message: 'Report submitted successfully',
+            report: {
+                id: report._id,
+                targetType: report.targetType,
+                target: report.target,
+                reason: report.reason,
+                status: report.status
+            }
+        });
+    } catch (error) {
+        console.error('Create report error:', error);
+        res.status(500).json({
+            message: 'Server error while submitting report',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
@@ -0,0 +1,146 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import SavedJob, { ISavedJob } from '../models/SavedJob';
+import Job, { IJob } from '../models/Job';
+import { ICompany } from '../models/Company';
+import { AuthRequest } from '../middleware/auth';
+import { afterCursor, cursorPage, parseCursor, withTiebreaker } from '../utils/pagination';
+import { unavailableReason } from '../utils/savedJobs';
+
+// Bookmark a job. Saving a job twice is not an error.
+export const saveJob = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const { jobId } = req.params;
+        if (!mongoose.Types.ObjectId.isValid(jobId)) {
+            return res.status(400).json({ message: 'Invalid job ID format' });
+        }
+
+        const existing = await SavedJob.findOne({ user: req.user.id, job: jobId });
+        if (existing) {
+            return res.json({ message: 'Job already saved', savedJob: existing });
+        }
+
+        const job = await Job.findById(jobId).populate<{ company: ICompany }>('company', 'companyName');
+        if (!job) {
+            return res.status(404).json({ message: 'Job not found' });
+        }
+        if (unavailableReason(job as unknown as IJob)) {
+            return res.status(400).json({ message: 'Only open jobs can be saved' });
+        }
+
+        const savedJob = await SavedJob.create({
+            user: req.user.id,
+            job: job._id,
+            jobTitle: job.title,
+            companyName: job.company?.companyName
+        });
+
+        res.status(201).json({ message: 'Job saved', savedJob });
+    } catch (error) {
+        // Saved twice at the same time
+        if ((error as { code?: number }).code === 11000) {
+            return res.json({ message: 'Job already saved' });
+        }
+        console.error('Save job error:', error);
+        res.status(500).json({
+            message: 'Server error while saving job',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+export const unsaveJob = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const { jobId } = req.params;
+        if (!mongoose.Types.ObjectId.isValid(jobId)) {
+            return res.status(400).json({ message: 'Invalid job ID format' });
+        }
+
+        const result = await SavedJob.deleteOne({ user: req.user.id, job: jobId });
+        if (result.deletedCount === 0) {
+            return res.status(404).json({ message: 'Saved job not found' });
+        }
+
+        res.json({ message: 'Job removed from saved jobs' });
+    } catch (error) {
+        console.error('Unsave job error:', error);
+        res.status(500).json({
+            message: 'Server error while removing saved job',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Saved jobs, newest first. Jobs that were closed, expired or deleted stay in the list
+// with available: false and the reason, so the user can see what happened to them.
+export const listSavedJobs = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const filter = { user: req.user.id };
+        const sort = withTiebreaker({ savedAt: -1 });
+        const populateJob = {
+            path: 'job',
+            select: 'title company type location status deadline salary postedAt',
+            populate: { path: 'company', select: 'companyName logo' }
+        };
+
+        const now = new Date();
+        const present = (entries: ISavedJob[]) => entries.map(entry => {
+            const job = entry.job as unknown as IJob | null;
+            const reason = unavailableReason(job, now);
+            return {
+                ...entry.toJSON(),
+                available: !reason,
+                ...(reason && { unavailableReason: reason })
+            };
+        });
+
+        const { cursor, error } = parseCursor(req.query, sort);
+        if (error) {
+            return res.status(400).json({ message: error });
+        }
+        if (cursor) {
+            const docs = await SavedJob.find(afterCursor(filter, sort, cursor.after))
+                .populate(populateJob)
+                .sort(sort)
+                .limit(cursor.limit + 1);
+            const { items, nextCursor } = cursorPage(docs, sort, cursor.limit);
+            return res.json({ savedJobs: present(items), nextCursor, limit: cursor.limit });
+        }
+
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = parseInt(req.query.limit as string) || 10;
+        const skip = (page - 1) * limit;
+
+        const totalSavedJobs = await SavedJob.countDocuments(filter);
+        const savedJobs = await SavedJob.find(filter)
+            .populate(populateJob)
+            .sort(sort)
+            .skip(skip)
+            .limit(limit);
+
+        res.json({
+            savedJobs: present(savedJobs),
+            currentPage: page,
+            totalPages: Math.ceil(totalSavedJobs / limit),
+            totalSavedJobs
+        });
+    } catch (error) {
+        console.error('List saved jobs error:', error);
+        res.status(500).json({
+            message: 'Server error while fetching saved jobs',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
@@ -0,0 +1,163 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import SavedSearch, { ALERT_FREQUENCIES, AlertFrequency } from '../models/SavedSearch';
+import { AuthRequest } from '../middleware/auth';
+import { nextRunAfter, parseSearchCriteria } from '../utils/savedSearches';
+
+const MAX_SAVED_SEARCHES = 20;
+
+const isFrequency = (value: unknown): value is AlertFrequency =>
+    ALERT_FREQUENCIES.includes(value as AlertFrequency);
+
+// Save a set of job search filters and how often to be alerted about new matches.
+// Only jobs posted from now on are included in alerts.
+export const createSavedSearch = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const { name, criteria: criteriaInput, frequency = 'daily' } = req.body;
+
+        if (!name || !criteriaInput) {
+            return res.status(400).json({
+                message: 'Missing required fields',
+                required: ['name', 'criteria'],
+                received: Object.keys(req.body)
+            });
+        }
+
+        if (!isFrequency(frequency)) {
+            return res.status(400).json({ message: `frequency must be one of ${ALERT_FREQUENCIES.join(', ')}` });
+        }
+
+        const { criteria, errors } = parseSearchCriteria(criteriaInput);
+        if (!criteria) {
+            return res.status(400).json({ message: 'Invalid search criteria', errors });
+        }
+
+        const count = await SavedSearch.countDocuments({ user: req.user.id });
+        if (count >= MAX_SAVED_SEARCHES) {
+            return res.status(400).json({ message: `You can save at most ${MAX_SAVED_SEARCHES} searches` });
+        }
+
+        const now = new Date();
+        const savedSearch = await SavedSearch.create({
+            user: req.user.id,
+            name,
+            criteria,
+            frequency,
+            lastRunAt: now,
+            nextRunAt: nextRunAfter(frequency, now)
+        });
+
+        res.status(201).json({ message: 'Search saved', savedSearch });
+    } catch (error) {
+        console.error('Create saved search error:', error);
+        res.status(500).json({
+            message: 'Server error while saving search',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+export const listSavedSearches = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const savedSearches = await SavedSearch.find({ user: req.user.id }).sort({ createdAt: -1 });
+
+        res.json({ savedSearches });
+    } catch (error) {
+        console.error('List saved searches error:', error);
+        res.status(500).json({
+            message: 'Server error while fetching saved searches',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Rename a saved search, change its criteria or change how often alerts are sent
+export const updateSavedSearch = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const { searchId } = req.params;
+        if (!mongoose.Types.ObjectId.isValid(searchId)) {
+            return res.status(400).json({ message: 'Invalid saved search ID format' });
+        }
+
+        const savedSearch = await SavedSearch.findOne({ _id: searchId, user: req.user.id });
+        if (!savedSearch) {
+            return res.status(404).json({ message: 'Saved search not found' });
+        }
+
+        const { name, criteria: criteriaInput, frequency } = req.body;
+
+        if (name !== undefined) {
+            if (typeof name !== 'string' || name.trim() === '') {
+                return res.status(400).json({ message: 'name must be a non-empty string' });
+            }
+            savedSearch.name = name;
+        }
+
+        if (criteriaInput !== undefined) {
+            const { criteria, errors } = parseSearchCriteria(criteriaInput);
+            if (!criteria) {
+                return res.status(400).json({ message: 'Invalid search criteria', errors });
+            }
+            savedSearch.criteria = criteria;
+        }
+
+        if (frequency !== undefined) {
+            if (!isFrequency(frequency)) {
+                return res.status(400).json({ message: `frequency must be one of ${ALERT_FREQUENCIES.join(', ')}` });
+            }
+            // The next digest still covers everything since the last one
+            if (frequency !== savedSearch.frequency) {
+                savedSearch.frequency = frequency;
+                savedSearch.nextRunAt = nextRunAfter(frequency, savedSearch.lastRunAt);
+            }
+        }
+
+        await savedSearch.save();
+
+        res.json({ message: 'Saved search updated', savedSearch });
+    } catch (error) {
+        console.error('Update saved search error:', error);
+        res.status(500).json({
+            message: 'Server error while updating saved search',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+export const deleteSavedSearch = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const { searchId } = req.params;
+        if (!mongoose.Types.ObjectId.isValid(searchId)) {
+            return res.status(400).json({ message: 'Invalid saved search ID format' });
+        }
+
+        const result = await SavedSearch.deleteOne({ _id: searchId, user: req.user.id });
+        if (result.deletedCount === 0) {
+            return res.status(404).json({ message: 'Saved search not found' });
+        }
+
+        res.json({ message: 'Saved search deleted' });
+    } catch (error) {
+        console.error('Delete saved search error:', error);
+        res.status(500).json({
+            message: 'Server error while deleting saved search',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
@@ -0,0 +1,121 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Session from '../models/Session';
+import { AuthRequest } from '../middleware/auth';
+
+// Sessions that belong to whoever is signed in. A company owner and each team member
+// only see and manage their own sessions.
+const principalFilter = (req: AuthRequest): Record<string, any> | null => {
+    if (req.user) {
+        return { accountId: req.user.id, accountType: 'User' };
+    }
+    if (req.admin) {
+        return { accountId: req.admin.id, accountType: 'Admin' };
+    }
+    if (req.company) {
+        return {
+            accountId: req.company.id,
+            accountType: 'Company',
+            memberId: req.company.memberId || { $exists: false }
+        };
+    }
+    return null;
+};
+
+const currentSessionId = (req: AuthRequest): string | undefined => (req.user || req.company || req.admin)?.sid;
+
+// List the active sessions (devices) of the authenticated account
+export const listSessions = async (req: AuthRequest, res: Response) => {
+    try {
+        const filter = principalFilter(req);
+        if (!filter) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const sessions = await Session.find({
+            ...filter,
+            revokedAt: { $exists: false },
+            expiresAt: { $gt: new Date() }
+        }).sort({ lastUsedAt: -1 });
+
+        const currentId = currentSessionId(req);
+
+        res.json({
+            sessions: sessions.map(session => ({
+                id: session._id,
+                userAgent: session.userAgent,
+                ip: session.ip,
+                createdAt: session.createdAt,
+                lastUsedAt: session.lastUsedAt,
+                current: session.id === currentId
+            }))
+        });
+    } catch (error) {
+        console.error('List sessions error:', error);
+        res.status(500).json({
+            message: 'Server error while fetching sessions',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Sign out a single session
+export const revokeSession = async (req: AuthRequest, res: Response) => {
+    try {
+        const filter = principalFilter(req);
+        if (!filter) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const { sessionId } = req.params;
+
+        if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+            return res.status(400).json({ message: 'Invalid session ID format' });
+        }
+
+        const result = await Session.updateOne(
+            { ...filter, _id: sessionId, revokedAt: { $exists: false } },
+            { $set: { revokedAt: new Date() } }
+        );
+
+        if (result.matchedCount === 0) {
+            return res.status(404).json({ message: 'Session not found' });
+        }
+
+        res.json({ message: 'Session revoked successfully' });
+    } catch (error) {
+        console.error('Revoke session error:', error);
+        res.status(500).json({
+            message: 'Server error while revoking session',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Sign out everywhere. Pass ?keepCurrent=true to stay signed in on this device.
+export const revokeAllSessions = async (req: AuthRequest, res: Response) => {
+    try {
+        const filter = principalFilter(req);
+        if (!filter) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const query: Record<string, any> = { ...filter, revokedAt: { $exists: false } };
+        if (req.query.keepCurrent === 'true' && currentSessionId(req)) {
+            query._id = { $ne: currentSessionId(req) };
+        }
+
+        const result = await Session.updateMany(query, { $set: { revokedAt: new Date() } });
+
+        res.json({
+            message: 'Sessions revoked successfully',
+            revoked: result.modifiedCount
+        });
+    } catch (error) {
+        console.error('Revoke all sessions error:', error);
+        res.status(500).json({
+            message: 'Server error while revoking sessions',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
@@ -0,0 +1,353 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import User from '../models/User';
+import Company from '../models/Company';
+import CompanyMember from '../models/CompanyMember';
+import { TWO_FACTOR_SECRET_FIELDS } from '../models/TwoFactor';
+import { AuthRequest, isAccountSuspended } from '../middleware/auth';
+import { generateTotpSecret, matchTotp, totpProvisioningUri } from '../utils/totp';
+import { checkLoginAllowed, loginThrottleKey, recordLoginFailure, recordLoginSuccess, sendLoginBlocked, sendUnlockEmail } from '../utils/loginThrottle';
+import { createSession, hashToken, verifyTwoFactorChallenge, TwoFactorChallenge, sessionClient } from '../utils/tokens';
+
+type TwoFactorAccountType = TwoFactorChallenge['accountType'];
+
+const RECOVERY_CODE_COUNT = 10;
+
+const MODELS: Record<TwoFactorAccountType, mongoose.Model<any>> = {
+    User,
+    Company,
+    CompanyMember
+};
+
+// Work out which account (user, company owner or team member) is making the request
+const resolveAccount = (req: AuthRequest): { id: string; accountType: TwoFactorAccountType } | null => {
+    if (req.user) return { id: req.user.id, accountType: 'User' };
+    if (req.company?.memberId) return { id: req.company.memberId, accountType: 'CompanyMember' };
+    if (req.company) return { id: req.company.id, accountType: 'Company' };
+    return null;
+};
+
+const loadAccount = (accountType: TwoFactorAccountType, id: string) =>
+    MODELS[accountType].findById(id).select(TWO_FACTOR_SECRET_FIELDS);
+
+const normalizeRecoveryCode = (code: string): string => code.toLowerCase().replace(/[^a-f0-9]/g, '');
+
+// Returns the plain codes to show once; only their hashes are stored
+const generateRecoveryCodes = (): { codes: string[]; hashes: string[] } => {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const hex = crypto.randomBytes(5).toString('hex');
+        return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+    return { codes, hashes: codes.map(code => hashToken(normalizeRecoveryCode(code))) };
+};
+
+// Remove a matching recovery code from the account. Returns whether one matched.
+const useRecoveryCode = (account: any, recoveryCode: unknown): boolean => {
+    if (typeof recoveryCode !== 'string' || !account.twoFactor?.recoveryCodes) {
+        return false;
+    }
+
+    const hash = hashToken(normalizeRecoveryCode(recoveryCode));
+    const index = account.twoFactor.recoveryCodes.indexOf(hash);
+    if (index === -1) {
+        return false;
+    }
+
+    account.twoFactor.recoveryCodes.splice(index, 1);
+    return true;
+};
+
+// Accept a code from the authenticator app at most once. It must be newer than the last
+// accepted code, and is recorded in a conditional update so a concurrent request cannot
+// reuse it either.
+const useTotpCode = async (accountType: TwoFactorAccountType, account: any, code: unknown): Promise<boolean> => {
+    const step = matchTotp(account.twoFactor.secret, code);
+    if (step === null || step <= (account.twoFactor.lastUsedStep ?? -1)) {
+        return false;
+    }
+
+    const result = await MODELS[accountType].updateOne(
+        { _id: account._id, 'twoFactor.lastUsedStep': { $not: { $gte: step } } },
+        { $set: { 'twoFactor.lastUsedStep': step } }
+    );
+    return result.modifiedCount > 0;
+};
+
+const startSession = (req: Request, accountType: TwoFactorAccountType, account: any) => {
+    if (accountType === 'User') {
+        return createSession(account.id, 'User', sessionClient(req));
+    }
+    if (accountType === 'CompanyMember') {
+        return createSession(account.company, 'Company', { memberId: account.id, role: account.role, ...sessionClient(req) });
+    }
+    return createSession(account.id, 'Company', { role: 'owner', ...sessionClient(req) });
+};
+
+// Start enrollment: create a secret and the URI to show as a QR code
+export const setupTwoFactor = async (req: AuthRequest, res: Response) => {
+    try {
+        const principal = resolveAccount(req);
+        if (!principal) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const account = await loadAccount(principal.accountType, principal.id);
+        if (!account) {
+            return res.status(404).json({ message: 'Account not found' });
+        }
+
+        if (account.twoFactor?.enabled) {
+            return res.status(400).json({ message: 'Two-factor authentication is already enabled' });
+        }
+
+        const secret = generateTotpSecret();
+        account.twoFactor = { enabled: false, pendingSecret: secret };
+        await account.save();
+
+        res.json({
+            secret,
+            otpauthUrl: totpProvisioningUri(secret, account.email, process.env.TOTP_ISSUER || 'Job Board')
+        });
+    } catch (error) {
+        console.error('Two-factor setup error:', error);
+        res.status(500).json({
+            message: 'Server error while setting up two-factor authentication',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Finish enrollment by confirming a code from the authenticator app
+export const enableTwoFactor = async (req: AuthRequest, res: Response) => {
+    try {
+        const principal = resolveAccount(req);
+        if (!principal) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const { code } = req.body;
+        if (!code) {
+            return res.status(400).json({ message: 'Verification code is required' });
+        }
+
+        const account = await loadAccount(principal.accountType, principal.id);
+        if (!account) {
+            return res.status(404).json({ message: 'Account not found' });
+        }
+
+        if (account.twoFactor?.enabled) {
+            return res.status(400).json({ message: 'Two-factor authentication is already enabled' });
+        }
+
+        if (!account.twoFactor?.pendingSecret) {
+            return res.status(400).json({ message: 'Start two-factor setup first' });
+        }
+
+        const step = matchTotp(account.twoFactor.pendingSecret, code);
+        if (step === null) {
+            return res.status(400).json({ message: 'Invalid verification code' });
+        }
+
+        const { codes, hashes } = generateRecoveryCodes();
+        account.twoFactor = {
+            enabled: true,
+            secret: account.twoFactor.pendingSecret,
+            recoveryCodes: hashes,
+            enabledAt: new Date(),
+            lastUsedStep: step  // The confirmation code cannot be used again
+        };
+        await account.save();
+
+        res.json({
+            message: 'Two-factor authentication enabled',
+            recoveryCodes: codes
+        });
+    } catch (error) {
+        console.error('Two-factor enable error:', error);
+        res.status(500).json({
+            message: 'Server error while enabling two-factor authentication',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Turn two-factor off. Requires the password and a current code or recovery code.
+export const disableTwoFactor = async (req: AuthRequest, res: Response) => {
+    try {
+        const principal = resolveAccount(req);
+        if (!principal) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const { password, code, recoveryCode } = req.body;
+        if (!password || (!code && !recoveryCode)) {
+            return res.status(400).json({ message: 'Password and a verification code or recovery code are required' });
+        }
+
+        const account = await loadAccount(principal.accountType, principal.id);
+        if (!account) {
+            return res.status(404).json({ message: 'Account not found' });
+        }
+
+        if (!account.twoFactor?.enabled) {
+            return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+        }
+
+        const isMatch = await account.comparePassword(password);
+        if (!isMatch) {
+            return res.status(401).json({ message: 'Password is incorrect' });
+        }
+
+        const validCode = code
+            ? await useTotpCode(principal.accountType, account, code)
+            : useRecoveryCode(account, recoveryCode);
+        if (!validCode) {
+            return res.status(400).json({ message: 'Invalid verification code' });
+        }
+
+        account.twoFactor = { enabled: false };
+        await account.save();
+
+        res.json({ message: 'Two-factor authentication disabled' });
+    } catch (error) {
+        console.error('Two-factor disable error:', error);
+        res.status(500).json({
+            message: 'Server error while disabling two-factor authentication',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Replace all recovery codes with a fresh set
+export const regenerateRecoveryCodes = async (req: AuthRequest, res: Response) => {
+    try {
+        const principal = resolveAccount(req);
+        if (!principal) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const { code } = req.body;
+        if (!code) {
+            return res.status(400).json({ message: 'Verification code is required' });
+        }
+
+        const account = await loadAccount(principal.accountType, principal.id);
+        if (!account) {
+            return res.status(404).json({ message: 'Account not found' });
+        }
+
+        if (!account.twoFactor?.enabled) {
+            return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+        }
+
+        if (!(await useTotpCode(principal.accountType, account, code))) {
+            return res.status(400).json({ message: 'Invalid verification code' });
+        }
+
+        const { codes, hashes } = generateRecoveryCodes();
+        account.twoFactor.recoveryCodes = hashes;
+        await account.save();
+
+        res.json({ recoveryCodes: codes });
+    } catch (error) {
+        console.error('Regenerate recovery codes error:', error);
+        res.status(500).json({
+            message: 'Server error while generating recovery codes',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Second login step: trade the challenge token and a code for a session
+export const verifyTwoFactorLogin = async (req: Request, res: Response) => {
+    try {
+        const { challengeToken, code, recoveryCode } = req.body;
+
+        if (!challengeToken || (!code && !recoveryCode)) {
+            return res.status(400).json({ message: 'Challenge token and a verification code or recovery code are required' });
+        }
+
+        const challenge = verifyTwoFactorChallenge(challengeToken);
+        if (!challenge) {
+            return res.status(401).json({ message: 'Invalid or expired challenge token' });
+        }
+
+        const account = await loadAccount(challenge.accountType, challenge.id);
+        if (!account || !account.twoFactor?.enabled) {
+            return res.status(401).json({ message: 'Invalid or expired challenge token' });
+        }
+
+        // Wrong codes count as failed logins, so guessing is throttled like passwords
+        const throttleKey = loginThrottleKey(challenge.accountType, account.email);
+        const block = await checkLoginAllowed(throttleKey, req.ip);
+        if (block) {
+            return sendLoginBlocked(res, block);
+        }
+
+        // A code that was already accepted once does not count
+        const step = code ? matchTotp(account.twoFactor.secret, code) : null;
+        const validCode = code
+            ? step !== null && step > (account.twoFactor.lastUsedStep ?? -1)
+            : useRecoveryCode(account, recoveryCode);
+        if (!validCode) {
+            const lock = await recordLoginFailure(throttleKey, req.ip);
+            if (lock) {
+                await sendUnlockEmail(account.id, challenge.accountType, account.email);
+                return sendLoginBlocked(res, lock);
+            }
+            return res.status(401).json({ message: 'Invalid verification code' });
+        }
+
+        await recordLoginSuccess(throttleKey);
+
+        // Team members are suspended along with their company
+        const suspended = challenge.accountType === 'User'
+            ? await isAccountSuspended(account.id, false)
+            : await isAccountSuspended(challenge.accountType === 'CompanyMember' ? account.company.toString() : account.id, true);
+        if (suspended) {
+            return res.status(403).json({ message: 'This account has been suspended' });
+        }
+
+        // Use up the challenge (and the code) in one conditional update, so neither
+        // can be replayed, not even by a concurrent request
+        const issuedAt = new Date(challenge.issuedAt as number);
+        const consumed = await MODELS[challenge.accountType].updateOne(
+            {
+                _id: account._id,
+                'twoFactor.lastChallengeIssuedAt': { $not: { $gte: issuedAt } },
+                ...(step !== null && { 'twoFactor.lastUsedStep': { $not: { $gte: step } } })
+            },
+            {
+                $set: {
+                    'twoFactor.lastChallengeIssuedAt': issuedAt,
+                    ...(step !== null && { 'twoFactor.lastUsedStep': step })
+                }
+            }
+        );
+        if (consumed.modifiedCount === 0) {
+            return res.status(401).json({ message: 'Invalid or expired challenge token' });
+        }
+
+        if (!code) {
+            // A recovery code was used up
+            await account.save();
+        }
+
+        const { token, refreshToken, expiresIn } = await startSession(req, challenge.accountType, account);
+
+        res.json({
+            message: 'Login successful',
+            token,
+            refreshToken,
+            expiresIn,
+            ...(!code && { recoveryCodesRemaining: account.twoFactor.recoveryCodes.length })
+        });
+    } catch (error) {
+        console.error('Two-factor login error:', error);
+        res.status(500).json({
+            message: 'Server error during two-factor login',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
@@ -1,9 +1,31 @@
 import { Request, Response } from 'express';
-import jwt from 'jsonwebtoken';
-import User from '../models/User';
+import User, { IUser } from '../models/User';
+import SavedJob from '../models/SavedJob';
+import SavedSearch from '../models/SavedSearch';
 import { AuthRequest } from '../middleware/auth';
+import { issueAccountToken, consumeAccountToken } from '../utils/accountTokens';
+import { sendMail, clientUrl } from '../utils/mail';
+import { validatePassword } from '../utils/passwordPolicy';
+import { checkLoginAllowed, loginThrottleKey, recordLoginFailure, recordLoginSuccess, sendLoginBlocked, sendUnlockEmail, unlockWithToken } from '../utils/loginThrottle';
+import { createSession, rotateSession, revokeSessionByRefreshToken, revokeAllSessions, signTwoFactorChallenge, sessionClient } from '../utils/tokens';
 import mongoose from 'mongoose';
 
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const EMAIL_VERIFICATION_TTL_MINUTES = 24 * 60;
+
+// Email a verification link for the user's current address
+const sendVerificationEmail = async (user: IUser) => {
+    const token = await issueAccountToken(user.id, 'User', 'email-verification', EMAIL_VERIFICATION_TTL_MINUTES);
+    const verifyLink = clientUrl('/verify-email', { token, type: 'user' });
+
+    await sendMail({
+        to: user.email,
+        subject: 'Verify your email address',
+        text: `Hi ${user.firstName},\n\nPlease confirm your email address by opening the link below. ` +
+            `It expires in 24 hours.\n\n${verifyLink}`
+    });
+};
+
 // Register a new user
 export const register = async (req: Request, res: Response) => {
     try {
@@ -19,6 +41,14 @@ export const register = async (req: Request, res: Response) => {
             });
         }
 
+        const passwordErrors = validatePassword(password);
+        if (passwordErrors.length > 0) {
+            return res.status(400).json({
+                message: 'Password does not meet requirements',
+                errors: passwordErrors
+            });
+        }
+
         // Check if user already exists
         const existingUser = await User.findOne({ email });
         if (existingUser) {
@@ -33,28 +63,29 @@ export const register = async (req: Request, res: Response) => {
             password, // Note: Password should be hashed before saving in production
             location,
             bio,
-            skills: skills || []
+            skills: skills || [],
+            emailVerified: false
         });
 
         await user.save();
+        await sendVerificationEmail(user);
 
-        // Generate JWT token
-        const token = jwt.sign(
-            { id: user._id, isCompany: false },
-            process.env.JWT_SECRET || 'defaultsecret',
-            { expiresIn: '24h' }
-        );
+        // Start a session and issue an access/refresh token pair
+        const { token, refreshToken, expiresIn } = await createSession(user.id, 'User', sessionClient(req));
 
         res.status(201).json({
             message: 'User registered successfully',
             token,
+            refreshToken,
+            expiresIn,
             user: {
                 id: user._id,
                 firstName: user.firstName,
                 lastName: user.lastName,
                 email: user.email,
                 location: user.location,
-                skills: user.skills
+                skills: user.skills,
+                emailVerified: user.emailVerified !== false
             }
         });
     } catch (error) {
@@ -81,35 +112,65 @@ export const login = async (req: Request, res: Response) => {
             });
         }
 
+        // Refuse early when this account or this IP has too many recent failures
+        const throttleKey = loginThrottleKey('User', email);
+        const block = await checkLoginAllowed(throttleKey, req.ip);
+        if (block) {
+            return sendLoginBlocked(res, block);
+        }
+
         // Find user by email
         const user = await User.findOne({ email });
         if (!user) {
+            const lock = await recordLoginFailure(throttleKey, req.ip);
+            if (lock) {
+                return sendLoginBlocked(res, lock);
+            }
             return res.status(400).json({ message: 'Invalid login credentials' });
         }
 
         // Cheack password
         const isMatch = await user.comparePassword(password);
         if (!isMatch) {
+            const lock = await recordLoginFailure(throttleKey, req.ip);
+            if (lock) {
+                await sendUnlockEmail(user.id, 'User', user.email);
+                return sendLoginBlocked(res, lock);
+            }
             return res.status(401).json({ message: 'Invalid login credentials' });
         }
 
-        // Generate JWT token
-        const token = jwt.sign(
-            { id: user._id, isCompany: false },
-            process.env.JWT_SECRET || 'defaultsecret',
-            { expiresIn: '24h' }
-        );
+        await recordLoginSuccess(throttleKey);
+
+        if (user.suspendedAt) {
+            return res.status(403).json({ message: 'This account has been suspended' });
+        }
+
+        // A second factor is required before any session is started
+        if (user.twoFactor?.enabled) {
+            return res.json({
+                message: 'Two-factor authentication required',
+                twoFactorRequired: true,
+                challengeToken: signTwoFactorChallenge({ id: user.id, accountType: 'User' })
+            });
+        }
+
+        // Start a session and issue an access/refresh token pair
+        const { token, refreshToken, expiresIn } = await createSession(user.id, 'User', sessionClient(req));
 
         res.json({
             message: 'Login successful',
             token,
+            refreshToken,
+            expiresIn,
             user: {
                 id: user._id,
                 firstName: user.firstName,
                 lastName: user.lastName,
                 email: user.email,
                 location: user.location,
-                skills: user.skills
+                skills: user.skills,
+                emailVerified: user.emailVerified !== false
             }
         });
     } catch (error) {
@@ -121,6 +182,285 @@ export const login = async (req: Request, res: Response) => {
     }
 };
 
+// Exchange a refresh token for a new access/refresh token pair
+export const refresh = async (req: Request, res: Response) => {
+    try {
+        const { refreshToken } = req.body;
+
+        if (!refreshToken || typeof refreshToken !== 'string') {
+            return res.status(400).json({ message: 'Refresh token is required' });
+        }
+
+        const tokens = await rotateSession(refreshToken, 'User', sessionClient(req));
+        if (!tokens) {
+            return res.status(401).json({ message: 'Invalid or expired refresh token' });
+        }
+
+        res.json({
+            message: 'Token refreshed successfully',
+            ...tokens
+        });
+    } catch (error) {
+        console.error('User refresh token error:', error);
+        res.status(500).json({
+            message: 'Server error while refreshing token',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Logout a user by revoking the session behind the refresh token
+export const logout = async (req: Request, res: Response) => {
+    try {
+        const { refreshToken } = req.body;
+
+        if (!refreshToken || typeof refreshToken !== 'string') {
+            return res.status(400).json({ message: 'Refresh token is required' });
+        }
+
+        await revokeSessionByRefreshToken(refreshToken, 'User');
+
+        res.json({ message: 'Logged out successfully' });
+    } catch (error) {
+        console.error('User logout error:', error);
+        res.status(500).json({
+            message: 'Server error during user logout',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Request a password reset link by email
+export const forgotPassword = async (req: Request, res: Response) => {
+    try {
+        const { email } = req.body;
+
+        if (!email) {
+            return res.status(400).json({ message: 'Email is required' });
+        }
+
+        // Always answer the same way so the endpoint cannot be used to discover accounts
+        const response = { message: 'If an account exists for this email, a password reset link has been sent' };
+
+        const user = await User.findOne({ email });
+        if (!user) {
+            return res.json(response);
+        }
+
+        const token = await issueAccountToken(user.id, 'User', 'password-reset', PASSWORD_RESET_TTL_MINUTES);
+        const resetLink = clientUrl('/reset-password', { token, type: 'user' });
+
+        await sendMail({
+            to: user.email,
+            subject: 'Reset your password',
+            text: `Hi ${user.firstName},\n\nUse the link below to choose a new password. ` +
+                `It expires in ${PASSWORD_RESET_TTL_MINUTES} minutes and can only be used once.\n\n${resetLink}\n\n` +
+                `If you did not request a password reset you can ignore this email.`
+        });
+
+        res.json(response);
+    } catch (error) {
+        console.error('User forgot password error:', error);
+        res.status(500).json({
+            message: 'Server error while requesting password reset',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Set a new password using a reset token
+export const resetPassword = async (req: Request, res: Response) => {
+    try {
+        const { token, password } = req.body;
+
+        if (!token || !password) {
+            return res.status(400).json({
+                message: 'Token and password are required',
+                received: Object.keys(req.body)
+            });
+        }
+
+        const passwordErrors = validatePassword(password);
+        if (passwordErrors.length > 0) {
+            return res.status(400).json({
+                message: 'Password does not meet requirements',
+                errors: passwordErrors
+            });
+        }
+
+        const resetToken = await consumeAccountToken(token, 'User', 'password-reset');
+        if (!resetToken) {
+            return res.status(400).json({ message: 'Invalid or expired password reset token' });
+        }
+
+        const user = await User.findById(resetToken.accountId);
+        if (!user) {
+            return res.status(404).json({ message: 'User not found' });
+        }
+
+        // The pre('save') hook hashes the new password
+        user.password = password;
+        await user.save();
+
+        // Whoever knew the old password should not stay signed in
+        await revokeAllSessions(user.id, 'User');
+
+        res.json({ message: 'Password has been reset successfully' });
+    } catch (error) {
+        console.error('User reset password error:', error);
+        res.status(500).json({
+            message: 'Server error while resetting password',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Confirm an email address using a verification token
+export const verifyEmail = async (req: Request, res: Response) => {
+    try {
+        const { token } = req.body;
+
+        if (!token) {
+            return res.status(400).json({ message: 'Verification token is required' });
+        }
+
+        const verificationToken = await consumeAccountToken(token, 'User', 'email-verification');
+        if (!verificationToken) {
+            return res.status(400).json({ message: 'Invalid or expired verification token' });
+        }
+
+        const user = await User.findById(verificationToken.accountId);
+        if (!user) {
+            return res.status(404).json({ message: 'User not found' });
+        }
+
+        user.emailVerified = true;
+        user.emailVerifiedAt = new Date();
+        await user.save();
+
+        res.json({ message: 'Email verified successfully' });
+    } catch (error) {
+        console.error('User verify email error:', error);
+        res.status(500).json({
+            message: 'Server error while verifying email',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Send a new verification email to the authenticated user
+export const resendVerification = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const user = await User.findById(req.user.id);
+        if (!user) {
+            return res.status(404).json({ message: 'User not found' });
+        }
+
+        if (user.emailVerified !== false) {
+            return res.status(400).json({ message: 'Email is already verified' });
+        }
+
+        await sendVerificationEmail(user);
+
+        res.json({ message: 'Verification email sent' });
+    } catch (error) {
+        console.error('User resend verification error:', error);
+        res.status(500).json({
+            message: 'Server error while sending verification email',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Change the password of the authenticated user
+export const changePassword = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const { currentPassword, newPassword } = req.body;
+
+        if (!currentPassword || !newPassword) {
+            return res.status(400).json({
+                message: 'Current password and new password are required',
+                received: Object.keys(req.body)
+            });
+        }
+
+        const passwordErrors = validatePassword(newPassword);
+        if (passwordErrors.length > 0) {
+            return res.status(400).json({
+                message: 'Password does not meet requirements',
+                errors: passwordErrors
+            });
+        }
+
+        const user = await User.findById(req.user.id);
+        if (!user) {
+            return res.status(404).json({ message: 'User not found' });
+        }
+
+        const isMatch = await user.comparePassword(currentPassword);
+        if (!isMatch) {
+            return res.status(401).json({ message: 'Current password is incorrect' });
+        }
+
+        if (await user.comparePassword(newPassword)) {
+            return res.status(400).json({ message: 'New password must be different from the current password' });
+        }
+
+        // The pre('save') hook hashes the new password
+        user.password = newPassword;
+        await user.save();
+
+        // Sign out every existing session, then keep the current client signed in with a fresh one
+        await revokeAllSessions(user.id, 'User');
+        const { token, refreshToken, expiresIn } = await createSession(user.id, 'User', sessionClient(req));
+
+        res.json({
+            message: 'Password changed successfully',
+            token,
+            refreshToken,
+            expiresIn
+        });
+    } catch (error) {
+        console.error('User change password error:', error);
+        res.status(500).json({
+            message: 'Server error while changing password',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Unlock a user account locked after too many failed logins
+export const unlockAccount = async (req: Request, res: Response) => {
+    try {
+        const { token } = req.body;
+
+        if (!token) {
+            return res.status(400).json({ message: 'Unlock token is required' });
+        }
+
+        const unlocked = await unlockWithToken(token, 'User');
+        if (!unlocked) {
+            return res.status(400).json({ message: 'Invalid or expired unlock token' });
+        }
+
+        res.json({ message: 'Account unlocked successfully' });
+    } catch (error) {
+        console.error('User unlock account error:', error);
+        res.status(500).json({
+            message: 'Server error while unlocking account',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
 // Update user profile
 export const updateUser = async (req: AuthRequest, res: Response) => {
     try {
@@ -158,6 +498,12 @@ export const updateUser = async (req: AuthRequest, res: Response) => {
             if (existingUser) {
                 return res.status(400).json({ message: 'Email is already in use' });
             }
+
+            // A new address has to be verified again
+            const currentUser = await User.findById(userId).select('email');
+            if (currentUser && currentUser.email !== String(email).trim().toLowerCase()) {
+                updateData.emailVerified = false;
+            }
         }
 
         const updatedUser = await User.findByIdAndUpdate(
@@ -170,6 +516,10 @@ export const updateUser = async (req: AuthRequest, res: Response) => {
             return res.status(404).json({ message: 'User not found' });
         }
 
+        if (updateData.emailVerified === false) {
+            await sendVerificationEmail(updatedUser);
+        }
+
         res.json({
             message: 'User updated successfully',
             user: {
@@ -229,13 +579,32 @@ export const deleteUser = async (req: AuthRequest, res: Response) => {
             // Continue with the process even if this fails
         }
 
-        // Step 4: Delete the user
+        // Step 4: Delete saved jobs
+        try {
+            const deleteSavedJobsResult = await SavedJob.deleteMany({ user: userId });
+            console.log(`Deleted ${deleteSavedJobsResult.deletedCount} saved jobs`);
+        } catch (savedJobError) {
+            console.error('Error deleting saved jobs:', savedJobError);
+        }
+
+        // Step 5: Delete saved searches so no more alerts are sent
+        try {
+            const deleteSavedSearchesResult = await SavedSearch.deleteMany({ user: userId });
+            console.log(`Deleted ${deleteSavedSearchesResult.deletedCount} saved searches`);
+        } catch (savedSearchError) {
+            console.error('Error deleting saved searches:', savedSearchError);
+        }
+
+        // Step 6: Delete the user
         const deletedUser = await User.findByIdAndDelete(userId);
 
         if (!deletedUser) {
             return res.status(404).json({ message: 'User not found' });
         }
 
+        // Sign out every device that was using this account
+        await revokeAllSessions(userId, 'User');
+
         return res.json({ message: 'User account deleted successfully' });
     } catch (error) {
         console.error('Delete user error:', error);
@@ -0,0 +1,55 @@
+import { Response, NextFunction } from 'express';
+import ApiKey, { ApiKeyScope } from '../models/ApiKey';
+import { AuthRequest, authCompany, isAccountSuspended } from './auth';
+import { findActiveApiKey } from '../utils/apiKeys';
+
+// Only refresh lastUsedAt this often to avoid a write on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Accepts either an interactive company token (same as authCompany) or an
+// "X-API-Key" header holding a key with the required scope.
+export const authCompanyOrApiKey = (scope: ApiKeyScope) => {
+    return async (req: AuthRequest, res: Response, next: NextFunction) => {
+        const key = req.header('X-API-Key');
+
+        if (!key) {
+            return authCompany(req, res, next);
+        }
+
+        try {
+            const apiKey = await findActiveApiKey(key);
+
+            if (!apiKey) {
+                return res.status(401).json({ message: 'Invalid API key' });
+            }
+
+            if (await isAccountSuspended(apiKey.company.toString(), true)) {
+                return res.status(403).json({ message: 'This account has been suspended' });
+            }
+
+            if (!apiKey.scopes.includes(scope)) {
+                return res.status(403).json({
+                    message: 'API key is missing the required scope',
+                    requiredScope: scope
+                });
+            }
+
+            if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+                await ApiKey.updateOne({ _id: apiKey._id }, { $set: { lastUsedAt: new Date() } });
+            }
+
+            req.company = {
+                kind: 'company',
+                id: apiKey.company.toString(),
+                apiKey: {
+                    id: apiKey.id,
+                    scopes: apiKey.scopes
+                }
+            };
+
+            next();
+        } catch (error) {
+            res.status(401).json({ message: 'Invalid API key' });
+        }
+    };
+};
@@ -1,11 +1,60 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import { touchSession } from '../utils/tokens';
+import { verifyJwt } from '../utils/signingKeys';
+import mongoose from 'mongoose';
+import { CompanyRole } from '../models/CompanyMember';
+import Company from '../models/Company';
+import User from '../models/User';
+import { AdminPrincipal, CompanyPrincipal, Principal, UserPrincipal } from '../policies';
 
 export interface AuthRequest extends Request {
-    company?: any;
-    user?: any;
+    company?: CompanyPrincipal;
+    user?: UserPrincipal;
+    admin?: AdminPrincipal;
+    resource?: mongoose.Document;  // Set by the authorize middleware
 }
 
+// Whoever is signed in, whichever middleware authenticated them
+export const principalOf = (req: AuthRequest): Principal | undefined => req.user || req.company || req.admin;
+
+const companyPrincipal = (decoded: any): CompanyPrincipal => ({
+    kind: 'company',
+    id: decoded.id,
+    sid: decoded.sid,
+    role: decoded.role || 'owner',  // Company logins without a member are the owner
+    ...(decoded.memberId && { memberId: decoded.memberId })
+});
+
+const userPrincipal = (decoded: any): UserPrincipal => ({
+    kind: 'user',
+    id: decoded.id,
+    sid: decoded.sid
+});
+
+// Verify the bearer token and make sure its session has not been revoked.
+// Returns null when the session is no longer active.
+const verifyAccessToken = async (token: string): Promise<any | null> => {
+    const decoded = verifyJwt(token);
+
+    // Tokens issued without a session cannot be revoked, so they are not accepted
+    if (!decoded.sid || !(await touchSession(decoded.sid))) {
+        return null;
+    }
+
+    return decoded;
+};
+
+// Suspended accounts keep their sessions but cannot use them until reinstated
+export const isAccountSuspended = async (accountId: string, isCompany: boolean): Promise<boolean> => {
+    const account = isCompany
+        ? await Company.findById(accountId).select('suspendedAt').lean()
+        : await User.findById(accountId).select('suspendedAt').lean();
+    return !!account?.suspendedAt;
+};
+
+const suspendedResponse = (res: Response) =>
+    res.status(403).json({ message: 'This account has been suspended' });
+
 export const authCompany = async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
         const token = req.header('Authorization')?.replace('Bearer ', '');
@@ -14,17 +63,22 @@ export const authCompany = async (req: AuthRequest, res: Response, next: NextFun
             return res.status(401).json({ message: 'Authentication required' });
         }
 
-        const decoded = jwt.verify(token, process.env.JWT_SECRET || 'defaultsecret') as any;
+        const decoded = await verifyAccessToken(token);
+
+        if (!decoded) {
+            return res.status(401).json({ message: 'Session has expired or been revoked' });
+        }
 
         // Check if the token is for a company
         if (!decoded.isCompany) {
             return res.status(403).json({ message: 'Access denied. Not a company account.' });
         }
 
-        req.company = {
-            id: decoded.id,
-            ...decoded
-        };
+        if (await isAccountSuspended(decoded.id, true)) {
+            return suspendedResponse(res);
+        }
+
+        req.company = companyPrincipal(decoded);
 
         next();
     } catch (error) {
@@ -40,19 +94,22 @@ export const authUser = async (req: AuthRequest, res: Response, next: NextFuncti
             return res.status(401).json({ message: 'Authentication required' });
         }
 
-        const decoded = jwt.verify(token, process.env.JWT_SECRET || 'defaultsecret') as any;
+        const decoded = await verifyAccessToken(token);
+
+        if (!decoded) {
+            return res.status(401).json({ message: 'Session has expired or been revoked' });
+        }
 
         // Check if the token is for a user
-        if (decoded.isCompany) {
+        if (decoded.isCompany || decoded.isAdmin) {
             return res.status(403).json({ message: 'Access denied. Not a user account.' });
         }
 
-        // Add complete user info to request
-        req.user = {
-            ...decoded,            // Include all decoded properties
-            id: decoded.id,        // Ensure id exists
-            isCompany: false       // Explicitly set isCompany to false
-        };
+        if (await isAccountSuspended(decoded.id, false)) {
+            return suspendedResponse(res);
+        }
+
+        req.user = userPrincipal(decoded);
 
         next();
     } catch (error) {
@@ -60,6 +117,55 @@ export const authUser = async (req: AuthRequest, res: Response, next: NextFuncti
     }
 }
 
+// For public routes that show extra details to signed-in users. Requests without a
+// valid user token (none, expired, revoked, a company or admin token, or a suspended
+// user) continue anonymously.
+export const optionalAuthUser = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+        const token = req.header('Authorization')?.replace('Bearer ', '');
+
+        if (!token) {
+            return next();
+        }
+
+        const decoded = await verifyAccessToken(token);
+
+        if (decoded && !decoded.isCompany && !decoded.isAdmin && !(await isAccountSuspended(decoded.id, false))) {
+            req.user = userPrincipal(decoded);
+        }
+
+        next();
+    } catch (error) {
+        next();
+    }
+};
+
+// Like auth, for public routes that also show some things to their owner. Requests
+// without a valid user or company token continue anonymously.
+export const optionalAuth = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+        const token = req.header('Authorization')?.replace('Bearer ', '');
+
+        if (!token) {
+            return next();
+        }
+
+        const decoded = await verifyAccessToken(token);
+
+        if (decoded && !decoded.isAdmin && !(await isAccountSuspended(decoded.id, !!decoded.isCompany))) {
+            if (decoded.isCompany) {
+                req.company = companyPrincipal(decoded);
+            } else {
+                req.user = userPrincipal(decoded);
+            }
+        }
+
+        next();
+    } catch (error) {
+        next();
+    }
+};
+
 // General auth that works for both users and companies
 export const auth = async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
@@ -69,16 +175,79 @@ export const auth = async (req: AuthRequest, res: Response, next: NextFunction)
             return res.status(401).json({ message: 'Authentication required'});
         }
         
-        const decoded = jwt.verify(token, process.env.JWT_SECRET || 'defaultsecret') as any;
-        
+        const decoded = await verifyAccessToken(token);
+
+        if (!decoded) {
+            return res.status(401).json({ message: 'Session has expired or been revoked' });
+        }
+
+        if (decoded.isAdmin) {
+            return res.status(403).json({ message: 'Access denied. Not a user or company account.' });
+        }
+
+        if (await isAccountSuspended(decoded.id, !!decoded.isCompany)) {
+            return suspendedResponse(res);
+        }
+
         if (decoded.isCompany) {
-            req.company = decoded;
+            req.company = companyPrincipal(decoded);
         } else {
-            req.user = decoded;
+            req.user = userPrincipal(decoded);
         }
         
         next();
     } catch (error) {
         res.status(401).json({ message: 'Invalid authentication token' });
     }
-};
\ No newline at end of file
+};
+
+// Platform administrators only
+export const authAdmin = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+        const token = req.header('Authorization')?.replace('Bearer ', '');
+
+        if (!token) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const decoded = await verifyAccessToken(token);
+
+        if (!decoded) {
+            return res.status(401).json({ message: 'Session has expired or been revoked' });
+        }
+
+        if (!decoded.isAdmin) {
+            return res.status(403).json({ message: 'Access denied. Administrators only.' });
+        }
+
+        req.admin = { kind: 'admin', id: decoded.id, sid: decoded.sid };
+
+        next();
+    } catch (error) {
+        res.status(401).json({ message: 'Invalid authentication token' });
+    }
+};
+
+// Must run after authCompany (or auth). Only lets through company members holding one of the roles.
+export const requireCompanyRole = (...roles: CompanyRole[]) => {
+    return (req: AuthRequest, res: Response, next: NextFunction) => {
+        if (!req.company) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        // API keys are limited by their scopes instead of roles
+        if (req.company.apiKey) {
+            return next();
+        }
+
+        if (!req.company.role || !roles.includes(req.company.role)) {
+            return res.status(403).json({
+                message: 'Your role does not allow this action',
+                role: req.company.role,
+                allowedRoles: roles
+            });
+        }
+
+        next();
+    };
+};
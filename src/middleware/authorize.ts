@@ -0,0 +1,64 @@
+import { Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { AuthRequest, principalOf } from './auth';
+import { can, PolicyAction } from '../policies';
+
+// The loaded document (null when there is none), or why the request cannot name one
+type LoadResult = { resource: mongoose.Document | null } | { invalid: string };
+
+type ResourceLoader = (req: AuthRequest) => Promise<LoadResult>;
+
+// "JobTemplate" -> "job template"
+const describeModel = (modelName: string): string =>
+    modelName.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+
+// Load a document by the id in a route parameter. Malformed ids are rejected with a 400.
+export const loadById = (model: mongoose.Model<any>, param: string): ResourceLoader => {
+    return async (req: AuthRequest) => {
+        const id = req.params[param];
+        if (!mongoose.Types.ObjectId.isValid(id)) {
+            return { invalid: `Invalid ${describeModel(model.modelName)} ID format` };
+        }
+        return { resource: await model.findById(id) };
+    };
+};
+
+// Must run after an auth middleware. Loads the resource, checks the policy for the
+// action and hands the document to the controller as req.resource.
+export const authorize = (action: PolicyAction, load: ResourceLoader) => {
+    return async (req: AuthRequest, res: Response, next: NextFunction) => {
+        const principal = principalOf(req);
+        if (!principal) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        try {
+            const loaded = await load(req);
+            if ('invalid' in loaded) {
+                return res.status(400).json({ message: loaded.invalid });
+            }
+
+            const { resource } = loaded;
+            const name = resource ? (resource.constructor as mongoose.Model<any>).modelName : 'Resource';
+
+            if (!resource) {
+                return res.status(404).json({ message: `${name} not found` });
+            }
+
+            if (!can(principal, action, resource)) {
+                return res.status(403).json({
+                    message: `You do not have permission to access this ${name.toLowerCase()}`
+                });
+            }
+
+            req.resource = resource;
+            next();
+        } catch (error) {
+            console.error('Authorization error:', error);
+            res.status(500).json({
+                message: 'Server error while checking permissions',
+                error: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+};
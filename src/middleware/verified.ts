@@ -0,0 +1,58 @@
+import { Response, NextFunction } from 'express';
+import Company from '../models/Company';
+import User from '../models/User';
+import { AuthRequest } from './auth';
+
+// Must run after authCompany. Blocks companies that have not verified their email yet.
+export const requireVerifiedCompany = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+        if (!req.company) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const company = await Company.findById(req.company.id).select('emailVerified').lean();
+
+        if (!company) {
+            return res.status(404).json({ message: 'Company not found' });
+        }
+
+        if (company.emailVerified === false) {
+            return res.status(403).json({ message: 'Please verify your email address before continuing' });
+        }
+
+        next();
+    } catch (error) {
+        console.error('Verified company check error:', error);
+        res.status(500).json({
+            message: 'Server error while checking email verification',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
+
+// Must run after authUser. Blocks users that have not verified their email yet.
+export const requireVerifiedUser = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+        if (!req.user) {
+            return res.status(401).json({ message: 'Authentication required' });
+        }
+
+        const user = await User.findById(req.user.id).select('emailVerified').lean();
+
+        if (!user) {
+            return res.status(404).json({ message: 'User not found' });
+        }
+
+        if (user.emailVerified === false) {
+            return res.status(403).json({ message: 'Please verify your email address before continuing' });
+        }
+
+        next();
+    } catch (error) {
+        console.error('Verified user check error:', error);
+        res.status(500).json({
+            message: 'Server error while checking email verification',
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+};
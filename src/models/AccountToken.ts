@@ -0,0 +1,53 @@
+import mongoose from 'mongoose';
+
+// Single-use tokens sent to an account by email (password reset, email verification,
+// team invitation and account unlock links).
+// Only a hash of the token is stored.
+export interface IAccountToken extends mongoose.Document {
+    accountId: mongoose.Types.ObjectId;
+    accountType: 'User' | 'Company' | 'CompanyMember' | 'Admin';
+    purpose: 'password-reset' | 'email-verification' | 'member-invitation' | 'account-unlock';
+    tokenHash: string;
+    expiresAt: Date;
+    usedAt?: Date;
+    createdAt: Date;
+}
+
+const AccountTokenSchema = new mongoose.Schema<IAccountToken>({
+    accountId: {
+        type: mongoose.Schema.Types.ObjectId,
+        refPath: 'accountType',
+        required: true
+    },
+    accountType: {
+        type: String,
+        enum: ['User', 'Company', 'CompanyMember', 'Admin'],
+        required: true
+    },
+    purpose: {
+        type: String,
+        enum: ['password-reset', 'email-verification', 'member-invitation', 'account-unlock'],
+        required: true
+    },
+    tokenHash: {
+        type: String,
+        required: true,
+        unique: true
+    },
+    expiresAt: {
+        type: Date,
+        required: true
+    },
+    usedAt: Date,
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+AccountTokenSchema.index({ accountId: 1, accountType: 1, purpose: 1 });
+
+// Let MongoDB clean up expired tokens
+AccountTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IAccountToken>('AccountToken', AccountTokenSchema);
@@ -0,0 +1,51 @@
+import mongoose from 'mongoose';
+import bcrypt from 'bcryptjs';
+
+// Platform administrators (moderation staff). Created from the environment at startup,
+// there is no public sign-up.
+export interface IAdmin extends mongoose.Document {
+  email: string;
+  password: string;
+  name?: string;
+  createdAt: Date;
+  comparePassword(candidatePassword: string): Promise<boolean>;
+}
+
+const AdminSchema = new mongoose.Schema<IAdmin>({
+  email: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    lowercase: true
+  },
+  password: {
+    type: String,
+    required: true
+  },
+  name: String,
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Hash password before saving
+AdminSchema.pre('save', async function(next) {
+  if (!this.isModified('password')) return next();
+
+  try {
+    const salt = await bcrypt.genSalt(10);
+    this.password = await bcrypt.hash(this.password, salt);
+    next();
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+// Method to compare password for login
+AdminSchema.methods.comparePassword = async function(candidatePassword: string): Promise<boolean> {
+  return bcrypt.compare(candidatePassword, this.password);
+};
+
+export default mongoose.model<IAdmin>('Admin', AdminSchema);
@@ -0,0 +1,59 @@
+import mongoose from 'mongoose';
+
+export const API_KEY_SCOPES = ['jobs:read', 'jobs:write', 'applications:read', 'applications:write'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Keys used by integrations (e.g. an ATS) to act on behalf of a company.
+// Only a hash of the secret part is stored; the prefix is kept for lookup and display.
+export interface IApiKey extends mongoose.Document {
+    company: mongoose.Types.ObjectId;
+    name: string;
+    prefix: string;
+    keyHash: string;
+    scopes: ApiKeyScope[];
+    createdBy?: mongoose.Types.ObjectId;
+    lastUsedAt?: Date;
+    revokedAt?: Date;
+    createdAt: Date;
+}
+
+const ApiKeySchema = new mongoose.Schema<IApiKey>({
+    company: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Company',
+        required: true,
+        index: true
+    },
+    name: {
+        type: String,
+        required: true,
+        trim: true
+    },
+    prefix: {
+        type: String,
+        required: true,
+        unique: true
+    },
+    keyHash: {
+        type: String,
+        required: true
+    },
+    scopes: {
+        type: [String],
+        enum: API_KEY_SCOPES,
+        required: true
+    },
+    // Team member who created the key (empty when it was the owner)
+    createdBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'CompanyMember'
+    },
+    lastUsedAt: Date,
+    revokedAt: Date,
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+export default mongoose.model<IApiKey>('ApiKey', ApiKeySchema);
@@ -2,6 +2,7 @@ import mongoose from 'mongoose';
 
 export interface IApplication extends mongoose.Document {
     job: mongoose.Types.ObjectId;
+    jobRevision?: number;  // Revision of the posting that was live when the user applied
     user: mongoose.Types.ObjectId;
     company: mongoose.Types.ObjectId;
     coverLetter?: string;
@@ -16,6 +17,9 @@ const ApplicationSchema = new mongoose.Schema<IApplication>({
         ref: 'Job',
         required: true
     },
+    jobRevision: {
+        type: Number
+    },
     user: {
         type: mongoose.Schema.Types.ObjectId,
         ref: 'User',
@@ -1,5 +1,7 @@
 import mongoose from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { ITwoFactor, TwoFactorSchema } from './TwoFactor';
+import { IGeoPoint, PointSchema, geocodeOnLocationChange } from './GeoPoint';
 
 export interface ICompany extends mongoose.Document {
   companyName: string;
@@ -7,9 +9,17 @@ export interface ICompany extends mongoose.Document {
   password: string;
   industry: string;
   location: string;
+  geo?: IGeoPoint;  // Coordinates of location
   description?: string;
   website?: string;
   logo?: string;
+  // Undefined for accounts created before verification existed; those count as verified
+  emailVerified?: boolean;
+  emailVerifiedAt?: Date;
+  twoFactor?: ITwoFactor;
+  // Set by a platform administrator; suspended accounts cannot sign in or use their sessions
+  suspendedAt?: Date;
+  suspensionReason?: string;
   createdAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
 }
@@ -38,15 +48,25 @@ const CompanySchema = new mongoose.Schema<ICompany>({
     type: String, 
     required: true 
   },
+  geo: PointSchema,
   description: String,
   website: String,
   logo: String,
+  emailVerified: Boolean,
+  emailVerifiedAt: Date,
+  twoFactor: TwoFactorSchema,
+  suspendedAt: Date,
+  suspensionReason: String,
   createdAt: { 
     type: Date, 
     default: Date.now 
   }
 });
 
+CompanySchema.index({ geo: '2dsphere' });
+
+geocodeOnLocationChange(CompanySchema);
+
 // Hash password before saving
 CompanySchema.pre('save', async function(next) {
   if (!this.isModified('password')) return next();
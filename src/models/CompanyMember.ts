@@ -0,0 +1,82 @@
+import mongoose from 'mongoose';
+import bcrypt from 'bcryptjs';
+import { ITwoFactor, TwoFactorSchema } from './TwoFactor';
+
+// The company account itself is the owner; members are the rest of the hiring team
+export type CompanyRole = 'owner' | 'admin' | 'recruiter' | 'viewer';
+export type MemberRole = Exclude<CompanyRole, 'owner'>;
+
+export interface ICompanyMember extends mongoose.Document {
+  company: mongoose.Types.ObjectId;
+  email: string;
+  name?: string;
+  password?: string;
+  role: MemberRole;
+  status: 'invited' | 'active';
+  invitedBy?: mongoose.Types.ObjectId;
+  joinedAt?: Date;
+  twoFactor?: ITwoFactor;
+  createdAt: Date;
+  comparePassword(candidatePassword: string): Promise<boolean>;
+}
+
+const CompanyMemberSchema = new mongoose.Schema<ICompanyMember>({
+  company: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Company',
+    required: true
+  },
+  email: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    lowercase: true
+  },
+  name: String,
+  // Set when the invitation is accepted
+  password: String,
+  role: {
+    type: String,
+    enum: ['admin', 'recruiter', 'viewer'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['invited', 'active'],
+    default: 'invited'
+  },
+  invitedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'CompanyMember'
+  },
+  joinedAt: Date,
+  twoFactor: TwoFactorSchema,
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+CompanyMemberSchema.index({ company: 1 });
+
+// Hash password before saving
+CompanyMemberSchema.pre('save', async function(next) {
+  if (!this.isModified('password') || !this.password) return next();
+
+  try {
+    const salt = await bcrypt.genSalt(10);
+    this.password = await bcrypt.hash(this.password, salt);
+    next();
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+// Method to compare password for login
+CompanyMemberSchema.methods.comparePassword = async function(candidatePassword: string): Promise<boolean> {
+  if (!this.password) return false;
+  return bcrypt.compare(candidatePassword, this.password);
+};
+
+export default mongoose.model<ICompanyMember>('CompanyMember', CompanyMemberSchema);
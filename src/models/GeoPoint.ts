@@ -0,0 +1,54 @@
+import mongoose from 'mongoose';
+import { geocodeLocation } from '../utils/geocoding';
+
+// GeoJSON point stored next to the free-text location of jobs and companies.
+// Coordinates are [longitude, latitude] as GeoJSON requires.
+export interface IGeoPoint {
+    type: 'Point';
+    coordinates: [number, number];
+}
+
+export const PointSchema = new mongoose.Schema<IGeoPoint>({
+    type: {
+        type: String,
+        enum: ['Point'],
+        default: 'Point',
+        required: true
+    },
+    coordinates: {
+        type: [Number],
+        required: true,
+        validate: {
+            validator: (value: number[]) =>
+                value.length === 2 && Math.abs(value[0]) <= 180 && Math.abs(value[1]) <= 90,
+            message: 'Coordinates must be [longitude, latitude]'
+        }
+    }
+}, { _id: false });
+
+export const isValidLatLng = (lat: number, lng: number): boolean =>
+    Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+export const toGeoPoint = (lat: number, lng: number): IGeoPoint => ({ type: 'Point', coordinates: [lng, lat] });
+
+// Fill in `geo` from `location` whenever the location changes and no coordinates were given.
+// Locations the geocoder does not know simply get no coordinates.
+export const geocodeOnLocationChange = (schema: mongoose.Schema<any>): void => {
+    schema.pre('save', async function() {
+        if (this.isModified('location') && !this.isModified('geo')) {
+            this.set('geo', (await geocodeLocation(this.get('location'))) || undefined);
+        }
+    });
+
+    schema.pre('findOneAndUpdate', async function() {
+        const update = this.getUpdate() as any;
+        if (update?.$set?.location && update.$set.geo === undefined) {
+            const geo = await geocodeLocation(update.$set.location);
+            if (geo) {
+                update.$set.geo = geo;
+            } else {
+                update.$unset = { ...update.$unset, geo: 1 };
+            }
+        }
+    });
+};
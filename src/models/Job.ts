@@ -1,24 +1,45 @@
 import mongoose from 'mongoose';
+import { IGeoPoint, PointSchema, geocodeOnLocationChange } from './GeoPoint';
+import { normalizeSalary, NormalizedSalary, SalaryPeriod, SALARY_PERIODS } from '../utils/salary';
+
+export const JOB_TYPES = ['Full-time', 'Part-time', 'Contract', 'Internship', 'Remote', 'Freelance'] as const;
+export type JobType = typeof JOB_TYPES[number];
 
 export interface IJob extends mongoose.Document {
   title: string;
   company: mongoose.Types.ObjectId;
   location?: string;
+  geo?: IGeoPoint;  // Coordinates of location, for radius search
   description: string;
   requirements: string[];
-  type: 'Full-time' | 'Part-time' | 'Contract' | 'Internship' | 'Remote' | 'Freelance';
+  type: JobType;
   salary?: {
     min: number;
     max: number;
     currency: string;
+    period?: SalaryPeriod;
+    // Yearly range in the base currency, kept up to date for filtering and sorting by pay
+    normalized?: NormalizedSalary;
   };
   applicationLink?: string; // URL to apply for the job
   skills: string[];
   experience?: string;
   education?: string;
   deadline?: Date;
+  // Drafts with a publish date are activated by the scheduler once it arrives
+  publishAt?: Date;
   status: 'active' | 'closed' | 'draft';
+  // Set when a platform administrator force-closes the posting
+  moderation?: {
+    closedBy: mongoose.Types.ObjectId;
+    closedAt: Date;
+    reason?: string;
+  };
   postedAt: Date;
+  // Current revision number, see models/JobRevision.ts
+  revision: number;
+  // The company's own id for the posting, used to update it on re-import
+  externalRef?: string;
 }
 
 const JobSchema = new mongoose.Schema<IJob>({
@@ -36,6 +57,7 @@ const JobSchema = new mongoose.Schema<IJob>({
     type: String,
     required: true
   },
+  geo: PointSchema,
   description: {
     type: String,
     required: true
@@ -47,12 +69,26 @@ const JobSchema = new mongoose.Schema<IJob>({
   type: {
     type: String,
     required: true,
-    enum: ['Full-time', 'Part-time', 'Contract', 'Internship', 'Remote', 'Freelance']
+    enum: JOB_TYPES
   },
   salary: {
     min: Number,
     max: Number,
-    currency: String
+    currency: {
+      type: String,
+      uppercase: true,
+      trim: true
+    },
+    period: {
+      type: String,
+      enum: SALARY_PERIODS,
+      default: 'yearly'
+    },
+    normalized: {
+      min: Number,
+      max: Number,
+      ratesVersion: String
+    }
   },
   applicationLink: String,
   skills: {
@@ -68,15 +104,32 @@ const JobSchema = new mongoose.Schema<IJob>({
     required: true
   },
   deadline: Date,
+  publishAt: Date,
   status: {
     type: String,
     required: true,
     enum: ['active', 'closed', 'draft'],
     default: 'active'
   },
+  moderation: {
+    closedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Admin'
+    },
+    closedAt: Date,
+    reason: String
+  },
   postedAt: {
     type: Date,
     default: Date.now
+  },
+  revision: {
+    type: Number,
+    default: 1
+  },
+  externalRef: {
+    type: String,
+    trim: true
   }
 });
 
@@ -88,4 +141,38 @@ JobSchema.index({
   location: 'text'
 });
 
+JobSchema.index({ status: 1, 'salary.normalized.max': -1 });
+JobSchema.index({ geo: '2dsphere' });
+JobSchema.index(
+  { company: 1, externalRef: 1 },
+  { unique: true, partialFilterExpression: { externalRef: { $type: 'string' } } }
+);
+
+geocodeOnLocationChange(JobSchema);
+
+// Keep the normalized salary in sync with the posted one
+JobSchema.pre('save', function(next) {
+  if (this.isModified('salary')) {
+    this.set('salary.normalized', normalizeSalary(this.salary));
+  }
+  next();
+});
+
+JobSchema.pre('findOneAndUpdate', function(next) {
+  const update = this.getUpdate() as any;
+  if (update?.$set?.salary) {
+    update.$set.salary = { ...update.$set.salary, normalized: normalizeSalary(update.$set.salary) };
+  }
+  next();
+});
+
+// Used by the scheduler to find jobs to publish or close
+JobSchema.index({ status: 1, publishAt: 1 });
+JobSchema.index({ status: 1, deadline: 1 });
+
+// Matches jobs without a deadline or whose deadline has not passed yet
+export const openDeadlineFilter = (now: Date = new Date()) => ({
+  $or: [{ deadline: { $exists: false } }, { deadline: null }, { deadline: { $gt: now } }]
+});
+
 export default mongoose.model<IJob>('Job', JobSchema);
\ No newline at end of file
@@ -0,0 +1,68 @@
+import mongoose from 'mongoose';
+
+// One saved version of a job posting. Revision 1 is the posting as created (or as it
+// was when history started being kept); every later change to a posting field adds one.
+export interface IJobRevision extends mongoose.Document {
+    job: mongoose.Types.ObjectId;
+    revision: number;
+    changedBy: {
+        kind: 'company' | 'admin' | 'system';
+        account?: mongoose.Types.ObjectId;  // Company or admin id
+        member?: mongoose.Types.ObjectId;   // Team member signed in for the company
+        apiKey?: mongoose.Types.ObjectId;
+    };
+    changedAt: Date;
+    changes: { field: string; from?: unknown; to?: unknown }[];
+    snapshot: Record<string, unknown>;  // The posting fields after this revision
+}
+
+const ChangeSchema = new mongoose.Schema({
+    field: {
+        type: String,
+        required: true
+    },
+    from: mongoose.Schema.Types.Mixed,
+    to: mongoose.Schema.Types.Mixed
+}, { _id: false });
+
+const JobRevisionSchema = new mongoose.Schema<IJobRevision>({
+    job: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Job',
+        required: true
+    },
+    revision: {
+        type: Number,
+        required: true
+    },
+    changedBy: {
+        kind: {
+            type: String,
+            enum: ['company', 'admin', 'system'],
+            required: true
+        },
+        account: mongoose.Schema.Types.ObjectId,
+        member: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'CompanyMember'
+        },
+        apiKey: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'ApiKey'
+        }
+    },
+    changedAt: {
+        type: Date,
+        default: Date.now
+    },
+    changes: [ChangeSchema],
+    snapshot: {
+        type: mongoose.Schema.Types.Mixed,
+        required: true
+    }
+});
+
+JobRevisionSchema.index({ job: 1, revision: 1 }, { unique: true });
+JobRevisionSchema.index({ job: 1, changedAt: -1 });
+
+export default mongoose.model<IJobRevision>('JobRevision', JobRevisionSchema);
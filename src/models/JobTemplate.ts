@@ -0,0 +1,71 @@
+import mongoose from 'mongoose';
+import { JOB_TYPES, JobType } from './Job';
+import { SalaryPeriod, SALARY_PERIODS } from '../utils/salary';
+
+// Reusable job posting owned by a company. Text fields may contain {{variables}}
+// (e.g. {{location}}) that are filled in when a job is created from the template.
+export interface IJobTemplate extends mongoose.Document {
+    company: mongoose.Types.ObjectId;
+    name: string;
+    title?: string;
+    location?: string;
+    description?: string;
+    requirements: string[];
+    type?: JobType;
+    salary?: {
+        min?: number;
+        max?: number;
+        currency?: string;
+        period?: SalaryPeriod;
+    };
+    applicationLink?: string;
+    skills: string[];
+    experience?: string;
+    education?: string;
+    variables: string[];  // Variable names used in the fields above
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const JobTemplateSchema = new mongoose.Schema<IJobTemplate>({
+    company: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Company',
+        required: true
+    },
+    name: {
+        type: String,
+        required: true,
+        trim: true
+    },
+    title: String,
+    location: String,
+    description: String,
+    requirements: [String],
+    type: {
+        type: String,
+        enum: JOB_TYPES
+    },
+    salary: {
+        min: Number,
+        max: Number,
+        currency: {
+            type: String,
+            uppercase: true,
+            trim: true
+        },
+        period: {
+            type: String,
+            enum: SALARY_PERIODS
+        }
+    },
+    applicationLink: String,
+    skills: [String],
+    experience: String,
+    education: String,
+    variables: [String]
+}, { timestamps: true });
+
+JobTemplateSchema.index({ company: 1, name: 1 }, { unique: true });
+
+export default mongoose.model<IJobTemplate>('JobTemplate', JobTemplateSchema);
@@ -0,0 +1,36 @@
+import mongoose from 'mongoose';
+
+// Failed login counter, keyed either by account ("User:jane@example.com") or by client IP ("ip:1.2.3.4")
+export interface ILoginAttempt extends mongoose.Document {
+    key: string;
+    failures: number;
+    lastFailureAt: Date;
+    lockedUntil?: Date;
+    expiresAt: Date;
+}
+
+const LoginAttemptSchema = new mongoose.Schema<ILoginAttempt>({
+    key: {
+        type: String,
+        required: true,
+        unique: true
+    },
+    failures: {
+        type: Number,
+        default: 0
+    },
+    lastFailureAt: {
+        type: Date,
+        default: Date.now
+    },
+    lockedUntil: Date,
+    expiresAt: {
+        type: Date,
+        required: true
+    }
+});
+
+// Counters are forgotten once they go quiet
+LoginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ILoginAttempt>('LoginAttempt', LoginAttemptSchema);
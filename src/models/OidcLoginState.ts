@@ -0,0 +1,40 @@
+import mongoose from 'mongoose';
+
+// An authorization request that has been sent to an identity provider and not yet completed.
+// Holds the PKCE verifier and nonce needed to finish the login.
+export interface IOidcLoginState extends mongoose.Document {
+    stateHash: string;
+    provider: string;
+    codeVerifier: string;
+    nonce: string;
+    expiresAt: Date;
+}
+
+const OidcLoginStateSchema = new mongoose.Schema<IOidcLoginState>({
+    stateHash: {
+        type: String,
+        required: true,
+        unique: true
+    },
+    provider: {
+        type: String,
+        required: true
+    },
+    codeVerifier: {
+        type: String,
+        required: true
+    },
+    nonce: {
+        type: String,
+        required: true
+    },
+    expiresAt: {
+        type: Date,
+        required: true
+    }
+});
+
+// Abandoned logins are removed once they expire
+OidcLoginStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IOidcLoginState>('OidcLoginState', OidcLoginStateSchema);
@@ -0,0 +1,65 @@
+import mongoose from 'mongoose';
+
+// Content flagged by users or companies for moderators to review
+export interface IReport extends mongoose.Document {
+    reporter: mongoose.Types.ObjectId;
+    reporterType: 'User' | 'Company';
+    targetType: 'Job' | 'Company' | 'User';
+    target: mongoose.Types.ObjectId;
+    reason: 'scam' | 'spam' | 'offensive' | 'discrimination' | 'other';
+    details?: string;
+    status: 'open' | 'resolved' | 'dismissed';
+    resolvedBy?: mongoose.Types.ObjectId;
+    resolvedAt?: Date;
+    resolutionNote?: string;
+    createdAt: Date;
+}
+
+const ReportSchema = new mongoose.Schema<IReport>({
+    reporter: {
+        type: mongoose.Schema.Types.ObjectId,
+        refPath: 'reporterType',
+        required: true
+    },
+    reporterType: {
+        type: String,
+        enum: ['User', 'Company'],
+        required: true
+    },
+    targetType: {
+        type: String,
+        enum: ['Job', 'Company', 'User'],
+        required: true
+    },
+    target: {
+        type: mongoose.Schema.Types.ObjectId,
+        refPath: 'targetType',
+        required: true
+    },
+    reason: {
+        type: String,
+        enum: ['scam', 'spam', 'offensive', 'discrimination', 'other'],
+        required: true
+    },
+    details: String,
+    status: {
+        type: String,
+        enum: ['open', 'resolved', 'dismissed'],
+        default: 'open'
+    },
+    resolvedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Admin'
+    },
+    resolvedAt: Date,
+    resolutionNote: String,
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+ReportSchema.index({ status: 1, createdAt: -1 });
+ReportSchema.index({ targetType: 1, target: 1 });
+
+export default mongoose.model<IReport>('Report', ReportSchema);
@@ -0,0 +1,41 @@
+import mongoose from 'mongoose';
+
+// A job a user bookmarked to come back to later
+export interface ISavedJob extends mongoose.Document {
+    user: mongoose.Types.ObjectId;
+    job: mongoose.Types.ObjectId;
+    // Copied when saving so the entry still makes sense after the job is deleted
+    jobTitle: string;
+    companyName?: string;
+    savedAt: Date;
+    jobRemovedAt?: Date;  // Set when the company deletes the job
+}
+
+const SavedJobSchema = new mongoose.Schema<ISavedJob>({
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    job: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Job',
+        required: true
+    },
+    jobTitle: {
+        type: String,
+        required: true
+    },
+    companyName: String,
+    savedAt: {
+        type: Date,
+        default: Date.now
+    },
+    jobRemovedAt: Date
+});
+
+SavedJobSchema.index({ user: 1, job: 1 }, { unique: true });
+SavedJobSchema.index({ user: 1, savedAt: -1 });
+SavedJobSchema.index({ job: 1 });
+
+export default mongoose.model<ISavedJob>('SavedJob', SavedJobSchema);
@@ -0,0 +1,55 @@
+import mongoose from 'mongoose';
+
+export const ALERT_FREQUENCIES = ['instant', 'daily', 'weekly'] as const;
+export type AlertFrequency = typeof ALERT_FREQUENCIES[number];
+
+// A job search a user wants to be alerted about. criteria holds the getJobs/searchJobs
+// query parameters (q, location, type, ...) exactly as they would appear in the query string.
+export interface ISavedSearch extends mongoose.Document {
+    user: mongoose.Types.ObjectId;
+    name: string;
+    criteria: Record<string, string>;
+    frequency: AlertFrequency;
+    // Jobs posted after lastRunAt are new for the next digest
+    lastRunAt: Date;
+    nextRunAt: Date;
+    lastNotifiedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const SavedSearchSchema = new mongoose.Schema<ISavedSearch>({
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    name: {
+        type: String,
+        required: true,
+        trim: true
+    },
+    criteria: {
+        type: mongoose.Schema.Types.Mixed,
+        required: true
+    },
+    frequency: {
+        type: String,
+        enum: ALERT_FREQUENCIES,
+        default: 'daily'
+    },
+    lastRunAt: {
+        type: Date,
+        default: Date.now
+    },
+    nextRunAt: {
+        type: Date,
+        required: true
+    },
+    lastNotifiedAt: Date
+}, { timestamps: true });
+
+SavedSearchSchema.index({ user: 1, createdAt: -1 });
+SavedSearchSchema.index({ nextRunAt: 1 });
+
+export default mongoose.model<ISavedSearch>('SavedSearch', SavedSearchSchema);
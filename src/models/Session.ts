@@ -0,0 +1,75 @@
+import mongoose from 'mongoose';
+import { CompanyRole } from './CompanyMember';
+
+// A session is created on login and holds the current refresh token (hashed).
+// Access tokens carry the session id, so revoking the session invalidates them too.
+export interface ISession extends mongoose.Document {
+    accountId: mongoose.Types.ObjectId;
+    accountType: 'User' | 'Company' | 'Admin';
+    // Set for company sessions: who on the hiring team signed in and with which role
+    memberId?: mongoose.Types.ObjectId;
+    role?: CompanyRole;
+    refreshTokenHash: string;
+    previousRefreshTokenHash?: string;
+    userAgent?: string;
+    ip?: string;
+    lastUsedAt: Date;
+    expiresAt: Date;
+    revokedAt?: Date;
+    createdAt: Date;
+}
+
+const SessionSchema = new mongoose.Schema<ISession>({
+    accountId: {
+        type: mongoose.Schema.Types.ObjectId,
+        refPath: 'accountType',
+        required: true
+    },
+    accountType: {
+        type: String,
+        enum: ['User', 'Company', 'Admin'],
+        required: true
+    },
+    memberId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'CompanyMember',
+        index: true
+    },
+    role: {
+        type: String,
+        enum: ['owner', 'admin', 'recruiter', 'viewer']
+    },
+    refreshTokenHash: {
+        type: String,
+        required: true,
+        unique: true
+    },
+    // Kept after rotation so a replayed (stolen) refresh token can be detected
+    previousRefreshTokenHash: {
+        type: String,
+        index: true
+    },
+    // Device information shown when listing active sessions
+    userAgent: String,
+    ip: String,
+    lastUsedAt: {
+        type: Date,
+        default: Date.now
+    },
+    expiresAt: {
+        type: Date,
+        required: true
+    },
+    revokedAt: Date,
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+SessionSchema.index({ accountId: 1, accountType: 1 });
+
+// Let MongoDB clean up expired sessions
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ISession>('Session', SessionSchema);
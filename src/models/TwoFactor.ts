@@ -0,0 +1,43 @@
+import mongoose from 'mongoose';
+
+// Two-factor settings embedded in User, Company and CompanyMember.
+// Secrets and recovery codes are never selected unless asked for explicitly.
+export interface ITwoFactor {
+    enabled: boolean;
+    secret?: string;
+    pendingSecret?: string; // Set during enrollment until the first code is confirmed
+    recoveryCodes?: string[]; // Hashed, each usable once
+    enabledAt?: Date;
+    lastUsedStep?: number; // Time step of the last code accepted at login, so a code works only once
+    lastChallengeIssuedAt?: Date; // Login challenges issued up to this time are used up
+}
+
+export const TwoFactorSchema = new mongoose.Schema<ITwoFactor>({
+    enabled: {
+        type: Boolean,
+        default: false
+    },
+    secret: {
+        type: String,
+        select: false
+    },
+    pendingSecret: {
+        type: String,
+        select: false
+    },
+    recoveryCodes: {
+        type: [String],
+        select: false
+    },
+    enabledAt: Date,
+    lastUsedStep: {
+        type: Number,
+        select: false
+    },
+    lastChallengeIssuedAt: {
+        type: Date,
+        select: false
+    }
+}, { _id: false });
+
+export const TWO_FACTOR_SECRET_FIELDS = '+twoFactor.secret +twoFactor.pendingSecret +twoFactor.recoveryCodes +twoFactor.lastUsedStep +twoFactor.lastChallengeIssuedAt';
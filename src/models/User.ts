@@ -1,11 +1,12 @@
 import mongoose from 'mongoose';
 import bcryptjs from 'bcryptjs';
+import { ITwoFactor, TwoFactorSchema } from './TwoFactor';
 
 export interface IUser extends mongoose.Document {
     firstName: string;
     lastName: string;
     email: string;
-    password: string;
+    password?: string;  // Missing for accounts that only sign in through an identity provider
     location?: string;
     bio?: string;
     skills?: string[];
@@ -33,6 +34,20 @@ export interface IUser extends mongoose.Document {
         size: number;
     };
     profileImage?: string; // URL to profile image
+    // Undefined for accounts created before verification existed; those count as verified
+    emailVerified?: boolean;
+    emailVerifiedAt?: Date;
+    twoFactor?: ITwoFactor;
+    // External identities (OpenID Connect) linked to this account
+    identities?: {
+        provider: string;
+        subject: string;
+        email?: string;
+        linkedAt: Date;
+    }[];
+    // Set by a platform administrator; suspended accounts cannot sign in or use their sessions
+    suspendedAt?: Date;
+    suspensionReason?: string;
     createdAt: Date;
     comparePassword(candidatePassword: string): Promise<boolean>;
 }
@@ -55,7 +70,9 @@ const UserSchema = new mongoose.Schema<IUser>({
     },
     password: {
         type: String,
-        required: true
+        required: function(this: IUser) {
+            return !this.identities || this.identities.length === 0;
+        }
     },
     location: String,
     bio: String,
@@ -118,6 +135,29 @@ const UserSchema = new mongoose.Schema<IUser>({
         size: Number
     },
     profileImage: String,
+    emailVerified: Boolean,
+    emailVerifiedAt: Date,
+    twoFactor: TwoFactorSchema,
+    identities: [
+        {
+            _id: false,
+            provider: {
+                type: String,
+                required: true
+            },
+            subject: {
+                type: String,
+                required: true
+            },
+            email: String,
+            linkedAt: {
+                type: Date,
+                default: Date.now
+            }
+        }
+    ],
+    suspendedAt: Date,
+    suspensionReason: String,
     createdAt: {
         type: Date,
         default: Date.now
@@ -126,7 +166,7 @@ const UserSchema = new mongoose.Schema<IUser>({
 
 // Hash password before saving
 UserSchema.pre('save', async function(next) {
-    if (!this.isModified('password')) return next();
+    if (!this.isModified('password') || !this.password) return next();
 
     try {
         const salt = await bcryptjs.genSalt(10);
@@ -139,7 +179,15 @@ UserSchema.pre('save', async function(next) {
 
 // Method to compare passwords
 UserSchema.methods.comparePassword = async function(candidatePassword: string): Promise<boolean> {
+    // Accounts created through an identity provider have no password to match
+    if (!this.password) return false;
     return bcryptjs.compare(candidatePassword, this.password);
 }
 
+// One account per identity at each provider
+UserSchema.index(
+    { 'identities.provider': 1, 'identities.subject': 1 },
+    { unique: true, partialFilterExpression: { 'identities.subject': { $exists: true } } }
+);
+
 export default mongoose.model<IUser>('User', UserSchema);
\ No newline at end of file
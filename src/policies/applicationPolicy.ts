@@ -0,0 +1,19 @@
+import { Policy, Ref, Rule, isCompany, isUser } from './types';
+
+export interface ApplicationResource {
+    user: Ref;
+    company: Ref;
+}
+
+const isHiringCompany: Rule<ApplicationResource> = (principal, application) =>
+    isCompany(principal, application.company);
+
+const isApplicantOrHiringCompany: Rule<ApplicationResource> = (principal, application) =>
+    isUser(principal, application.user) || isCompany(principal, application.company);
+
+export const applicationPolicy: Policy<ApplicationResource> = {
+    read: isApplicantOrHiringCompany,
+    openChat: isApplicantOrHiringCompany,
+    updateStatus: isHiringCompany,
+    downloadCv: isHiringCompany
+};
@@ -0,0 +1,14 @@
+import { Policy, Ref, Rule, isCompany, isUser } from './types';
+
+export interface ChatResource {
+    userId: Ref;
+    companyId: Ref;
+}
+
+const isParticipant: Rule<ChatResource> = (principal, chat) =>
+    isUser(principal, chat.userId) || isCompany(principal, chat.companyId);
+
+export const chatPolicy: Policy<ChatResource> = {
+    read: isParticipant,
+    message: isParticipant
+};
@@ -0,0 +1,31 @@
+import mongoose from 'mongoose';
+import { Principal } from './principal';
+import { Policy, PolicyAction } from './types';
+import { jobPolicy } from './jobPolicy';
+import { jobTemplatePolicy } from './jobTemplatePolicy';
+import { applicationPolicy } from './applicationPolicy';
+import { chatPolicy } from './chatPolicy';
+
+export * from './principal';
+export { PolicyAction } from './types';
+
+// Keyed by mongoose model name
+const POLICIES: Record<string, Policy<any>> = {
+    Job: jobPolicy,
+    JobTemplate: jobTemplatePolicy,
+    Application: applicationPolicy,
+    Chat: chatPolicy
+};
+
+// Whether the principal may perform the action on the loaded document.
+// Unknown resources and unlisted actions are denied.
+export const can = (principal: Principal | undefined, action: PolicyAction, resource: mongoose.Document): boolean => {
+    if (!principal) {
+        return false;
+    }
+
+    const modelName = (resource.constructor as mongoose.Model<any>).modelName;
+    const rule = POLICIES[modelName]?.[action];
+
+    return rule ? rule(principal, resource) : false;
+};
@@ -0,0 +1,20 @@
+import { Policy, Ref, Rule, isCompany } from './types';
+
+export interface JobResource {
+    company: Ref;
+}
+
+const ownsJob: Rule<JobResource> = (principal, job) => isCompany(principal, job.company);
+
+// Moderators look at past revisions when handling reports and disputes
+const ownsJobOrAdmin: Rule<JobResource> = (principal, job) => principal.kind === 'admin' || ownsJob(principal, job);
+
+// Active jobs are public; read covers the drafts, scheduled and closed ones
+export const jobPolicy: Policy<JobResource> = {
+    read: ownsJobOrAdmin,
+    update: ownsJob,
+    delete: ownsJob,
+    duplicate: ownsJob,
+    viewApplications: ownsJob,
+    viewHistory: ownsJobOrAdmin
+};
@@ -0,0 +1,13 @@
+import { Policy, Ref, Rule, isCompany } from './types';
+
+export interface JobTemplateResource {
+    company: Ref;
+}
+
+const ownsTemplate: Rule<JobTemplateResource> = (principal, template) => isCompany(principal, template.company);
+
+export const jobTemplatePolicy: Policy<JobTemplateResource> = {
+    read: ownsTemplate,
+    update: ownsTemplate,
+    delete: ownsTemplate
+};
@@ -0,0 +1,30 @@
+import { CompanyRole } from '../models/CompanyMember';
+import { ApiKeyScope } from '../models/ApiKey';
+
+// Who is making a request, as set by the auth middlewares
+
+export interface UserPrincipal {
+    kind: 'user';
+    id: string;
+    sid: string;
+}
+
+export interface CompanyPrincipal {
+    kind: 'company';
+    id: string;
+    sid?: string;          // Missing for API key requests
+    role?: CompanyRole;    // Missing for API key requests, which are limited by scopes
+    memberId?: string;     // Set when a team member (not the owner login) is signed in
+    apiKey?: {
+        id: string;
+        scopes: ApiKeyScope[];
+    };
+}
+
+export interface AdminPrincipal {
+    kind: 'admin';
+    id: string;
+    sid: string;
+}
+
+export type Principal = UserPrincipal | CompanyPrincipal | AdminPrincipal;
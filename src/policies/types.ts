@@ -0,0 +1,31 @@
+import mongoose from 'mongoose';
+import { Principal } from './principal';
+
+export type PolicyAction =
+    | 'read'
+    | 'update'
+    | 'delete'
+    | 'duplicate'
+    | 'viewApplications'
+    | 'viewHistory'
+    | 'updateStatus'
+    | 'downloadCv'
+    | 'openChat'
+    | 'message';
+
+export type Rule<T> = (principal: Principal, resource: T) => boolean;
+
+// Actions a policy does not list are denied
+export type Policy<T> = Partial<Record<PolicyAction, Rule<T>>>;
+
+// A reference that may or may not have been populated
+export type Ref = mongoose.Types.ObjectId | string | { _id: mongoose.Types.ObjectId | string };
+
+export const refId = (ref: Ref): string =>
+    typeof ref === 'object' && '_id' in ref ? ref._id.toString() : ref.toString();
+
+export const isCompany = (principal: Principal, company: Ref): boolean =>
+    principal.kind === 'company' && principal.id === refId(company);
+
+export const isUser = (principal: Principal, user: Ref): boolean =>
+    principal.kind === 'user' && principal.id === refId(user);
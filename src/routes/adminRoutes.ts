@@ -0,0 +1,36 @@
+import express from 'express';
+import * as adminController from '../controllers/adminController';
+import * as sessionController from '../controllers/sessionController';
+import * as jobController from '../controllers/jobController';
+import { authAdmin } from '../middleware/auth';
+import { authorize, loadById } from '../middleware/authorize';
+import Job from '../models/Job';
+
+const router = express.Router();
+
+// Public routes
+router.post('/login', adminController.login);
+router.post('/refresh', adminController.refresh);
+router.post('/logout', adminController.logout);
+
+// Accounts
+router.get('/users', authAdmin, adminController.listUsers);
+router.post('/users/:id/suspend', authAdmin, adminController.suspendUser);
+router.post('/users/:id/unsuspend', authAdmin, adminController.unsuspendUser);
+router.get('/companies', authAdmin, adminController.listCompanies);
+router.post('/companies/:id/suspend', authAdmin, adminController.suspendCompany);
+router.post('/companies/:id/unsuspend', authAdmin, adminController.unsuspendCompany);
+
+// Content
+router.post('/jobs/:id/close', authAdmin, adminController.closeJob);
+router.get('/jobs/:id/revisions', authAdmin, authorize('viewHistory', loadById(Job, 'id')), jobController.getJobRevisions);
+router.get('/jobs/:id/as-of', authAdmin, authorize('viewHistory', loadById(Job, 'id')), jobController.getJobAsOf);
+router.get('/reports', authAdmin, adminController.listReports);
+router.put('/reports/:id', authAdmin, adminController.updateReport);
+
+// Sessions
+router.get('/sessions', authAdmin, sessionController.listSessions);
+router.delete('/sessions', authAdmin, sessionController.revokeAllSessions);
+router.delete('/sessions/:sessionId', authAdmin, sessionController.revokeSession);
+
+export default router;
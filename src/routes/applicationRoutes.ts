@@ -1,21 +1,28 @@
 import express from 'express';
 import * as applicationController from '../controllers/applicationController';
-import { auth, authUser, authCompany } from '../middleware/auth';
+import { auth, authUser, authCompany, requireCompanyRole } from '../middleware/auth';
+import { requireVerifiedUser } from '../middleware/verified';
+import { authCompanyOrApiKey } from '../middleware/apiKey';
+import { authorize, loadById } from '../middleware/authorize';
+import Application from '../models/Application';
+import Job from '../models/Job';
 
 const router = express.Router();
 
 // User routes
 router.get('/user/applications', authUser, applicationController.getUserApplications);
-router.get('/job/:jobId', authCompany, applicationController.getJobApplications);
-router.post('/apply', authUser, applicationController.applyForJob);
+router.get('/job/:jobId', authCompanyOrApiKey('applications:read'), authorize('viewApplications', loadById(Job, 'jobId')), applicationController.getJobApplications);
+router.post('/apply', authUser, requireVerifiedUser, applicationController.applyForJob);
 router.delete('/withdraw/:applicationId', authUser, applicationController.withdrawApplication);
-router.get('/:id', auth, applicationController.getApplicationById);
+router.get('/:id', auth, authorize('read', loadById(Application, 'id')), applicationController.getApplicationById);
+router.get('/:id/job-revision', auth, authorize('read', loadById(Application, 'id')), applicationController.getApplicationJobRevision);
 
 // Company routes
 
-router.put('/:applicationId/status', authCompany, applicationController.updateApplicationStatus);
-router.get('/:applicationId/cv', authCompany, applicationController.downloadApplicantCV);
-router.get('/stats/company', authCompany, applicationController.getCompanyApplicationsStats);
-router.get('/stats/job/:jobId', authCompany, applicationController.getJobApplicationsStats);
+const canHandleApplicants = requireCompanyRole('owner', 'admin', 'recruiter');
+router.put('/:applicationId/status', authCompanyOrApiKey('applications:write'), canHandleApplicants, authorize('updateStatus', loadById(Application, 'applicationId')), applicationController.updateApplicationStatus);
+router.get('/:applicationId/cv', authCompany, canHandleApplicants, authorize('downloadCv', loadById(Application, 'applicationId')), applicationController.downloadApplicantCV);
+router.get('/stats/company', authCompanyOrApiKey('applications:read'), applicationController.getCompanyApplicationsStats);
+router.get('/stats/job/:jobId', authCompanyOrApiKey('applications:read'), authorize('viewApplications', loadById(Job, 'jobId')), applicationController.getJobApplicationsStats);
 
 export default router;
\ No newline at end of file
@@ -1,16 +1,49 @@
 import express from 'express';
 import * as authController from '../controllers/authController';
-import { auth } from '../middleware/auth';
+import * as memberController from '../controllers/memberController';
+import * as twoFactorController from '../controllers/twoFactorController';
+import * as sessionController from '../controllers/sessionController';
+import { auth, authCompany, requireCompanyRole } from '../middleware/auth';
 
 const router = express.Router();
 
 // Public Routes
 router.post('/register', authController.register);
 router.post('/login', authController.login);
+router.post('/refresh', authController.refresh);
+router.post('/logout', authController.logout);
+router.post('/forgot-password', authController.forgotPassword);
+router.post('/reset-password', authController.resetPassword);
+router.post('/verify-email', authController.verifyEmail);
+router.post('/unlock', authController.unlockAccount);
+router.post('/2fa/verify', twoFactorController.verifyTwoFactorLogin);
 
 // Protected Routes (require authentication)
-router.put('/company', auth, authController.updateCompany);
-router.delete('/company', auth, authController.deleteCompany);
+router.put('/company', auth, requireCompanyRole('owner', 'admin'), authController.updateCompany);
+router.delete('/company', auth, requireCompanyRole('owner'), authController.deleteCompany);
+router.put('/company/password', authCompany, requireCompanyRole('owner'), authController.changePassword);
+router.post('/resend-verification', authCompany, requireCompanyRole('owner'), authController.resendVerification);
+
+// Two-factor authentication routes (company owner or the signed-in team member)
+router.post('/2fa/setup', authCompany, twoFactorController.setupTwoFactor);
+router.post('/2fa/enable', authCompany, twoFactorController.enableTwoFactor);
+router.post('/2fa/disable', authCompany, twoFactorController.disableTwoFactor);
+router.post('/2fa/recovery-codes', authCompany, twoFactorController.regenerateRecoveryCodes);
+
+// Session (device) routes
+router.get('/sessions', authCompany, sessionController.listSessions);
+router.delete('/sessions', authCompany, sessionController.revokeAllSessions);
+router.delete('/sessions/:sessionId', authCompany, sessionController.revokeSession);
+
+// Team member routes
+router.post('/members/login', memberController.memberLogin);
+router.post('/members/accept', memberController.acceptInvitation);
+router.post('/members/unlock', memberController.unlockAccount);
+router.get('/members', authCompany, memberController.listMembers);
+router.post('/members', authCompany, requireCompanyRole('owner', 'admin'), memberController.inviteMember);
+router.put('/members/me/password', authCompany, memberController.changeMemberPassword);
+router.put('/members/:memberId/role', authCompany, requireCompanyRole('owner', 'admin'), memberController.updateMemberRole);
+router.delete('/members/:memberId', authCompany, requireCompanyRole('owner', 'admin'), memberController.removeMember);
 
 
 export default router;
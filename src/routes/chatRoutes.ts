@@ -2,11 +2,14 @@ import express from 'express';
 import * as chatController from '../controllers/chatController';
 import * as applicationController from '../controllers/applicationController';
 import { auth, authUser, authCompany } from '../middleware/auth';
+import { authorize, loadById } from '../middleware/authorize';
+import Application from '../models/Application';
+import Chat from '../models/Chat';
 
 const router = express.Router();
 
 // Application-specific routes first
-router.post('/application/:applicationId', auth, applicationController.createChatForApplication);
+router.post('/application/:applicationId', auth, authorize('openChat', loadById(Application, 'applicationId')), applicationController.createChatForApplication);
 
 // Get all chats
 router.get('/', auth, chatController.getChats);
@@ -14,9 +17,10 @@ router.get('/user', authUser, chatController.getChats);
 router.get('/company', authCompany, chatController.getChats);
 
 // Chat-specific operations
-router.get('/:chatId', auth, chatController.getChatById);
-router.get('/:chatId/company', authCompany, chatController.getChatById);
-router.post('/:chatId/messages', auth, chatController.sendMessage);
-router.put('/:chatId/read', auth, chatController.markChatAsRead);
+const loadChat = loadById(Chat, 'chatId');
+router.get('/:chatId', auth, authorize('read', loadChat), chatController.getChatById);
+router.get('/:chatId/company', authCompany, authorize('read', loadChat), chatController.getChatById);
+router.post('/:chatId/messages', auth, authorize('message', loadChat), chatController.sendMessage);
+router.put('/:chatId/read', auth, authorize('read', loadChat), chatController.markChatAsRead);
 
 export default router;
\ No newline at end of file
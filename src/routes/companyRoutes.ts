@@ -1,12 +1,18 @@
 import express from 'express';
 import * as companyController from '../controllers/companyController';
-import { authCompany } from '../middleware/auth';
+import * as apiKeyController from '../controllers/apiKeyController';
+import { authCompany, requireCompanyRole } from '../middleware/auth';
 
 const router = express.Router();
 
 // Protected routes (explicit paths first)
 router.get('/profile', authCompany, companyController.getCompanyProfile);
-router.put('/profile', authCompany, companyController.updateCompanyProfile);
+router.put('/profile', authCompany, requireCompanyRole('owner', 'admin'), companyController.updateCompanyProfile);
+
+// API keys for integrations
+router.get('/api-keys', authCompany, requireCompanyRole('owner', 'admin'), apiKeyController.listApiKeys);
+router.post('/api-keys', authCompany, requireCompanyRole('owner', 'admin'), apiKeyController.createApiKey);
+router.delete('/api-keys/:keyId', authCompany, requireCompanyRole('owner', 'admin'), apiKeyController.revokeApiKey);
 
 // Public routes (parameterized routes last)
 router.get('/', companyController.getAllCompanies); // Get all companies (with pagination)
@@ -0,0 +1,12 @@
+import express from 'express';
+import * as feedController from '../controllers/feedController';
+
+const router = express.Router();
+
+// Public feeds of active jobs for aggregators and search engines
+router.get('/jobs.rss', feedController.rssFeed);
+router.get('/jobs.atom', feedController.atomFeed);
+router.get('/jobs.xml', feedController.xmlFeed);
+router.get('/jobs/:id/jsonld', feedController.jobPostingJsonLd);
+
+export default router;
@@ -1,20 +1,32 @@
 import express from 'express';
 import * as jobController from '../controllers/jobController';
-import { auth, authCompany } from '../middleware/auth';
+import * as jobImportController from '../controllers/jobImportController';
+import { auth, optionalAuth, optionalAuthUser, requireCompanyRole } from '../middleware/auth';
+import { requireVerifiedCompany } from '../middleware/verified';
+import { authCompanyOrApiKey } from '../middleware/apiKey';
+import { authorize, loadById } from '../middleware/authorize';
+import Job from '../models/Job';
+import { importUpload } from '../config/multerConfig';
 
 const router = express.Router();
 
-// Public routes
-router.get('/', jobController.getJobs);
-router.get('/search', jobController.searchJobs);
+// Public routes (signed-in users also see which jobs they saved)
+router.get('/', optionalAuthUser, jobController.getJobs);
+router.get('/search', optionalAuthUser, jobController.searchJobs);
+router.get('/query', optionalAuthUser, jobController.queryJobs);
 
 
-router.get('/company/myjobs', authCompany, jobController.getCompanyJobs);
-router.get('/:id', jobController.getJobById);
+router.get('/company/myjobs', authCompanyOrApiKey('jobs:read'), jobController.getCompanyJobs);
+router.get('/:id', optionalAuth, jobController.getJobById);
+router.get('/:id/revisions', authCompanyOrApiKey('jobs:read'), authorize('viewHistory', loadById(Job, 'id')), jobController.getJobRevisions);
+router.get('/:id/as-of', authCompanyOrApiKey('jobs:read'), authorize('viewHistory', loadById(Job, 'id')), jobController.getJobAsOf);
 
-// Company-only routes (require company authentication)
-router.post('/', authCompany, jobController.createJob);
-router.put('/:id', authCompany, jobController.updateJob);
-router.delete('/:id', authCompany, jobController.deleteJob);
+// Company-only routes (require company authentication or an API key)
+const canManageJobs = requireCompanyRole('owner', 'admin', 'recruiter');
+router.post('/', authCompanyOrApiKey('jobs:write'), canManageJobs, requireVerifiedCompany, jobController.createJob);
+router.post('/import', authCompanyOrApiKey('jobs:write'), canManageJobs, requireVerifiedCompany, importUpload.single('file'), jobImportController.importJobs);
+router.put('/:id', authCompanyOrApiKey('jobs:write'), canManageJobs, authorize('update', loadById(Job, 'id')), jobController.updateJob);
+router.delete('/:id', authCompanyOrApiKey('jobs:write'), canManageJobs, authorize('delete', loadById(Job, 'id')), jobController.deleteJob);
+router.post('/:id/duplicate', authCompanyOrApiKey('jobs:write'), canManageJobs, requireVerifiedCompany, authorize('duplicate', loadById(Job, 'id')), jobController.duplicateJob);
 
 export default router;
\ No newline at end of file
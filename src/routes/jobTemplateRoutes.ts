@@ -0,0 +1,22 @@
+import express from 'express';
+import * as jobTemplateController from '../controllers/jobTemplateController';
+import { requireCompanyRole } from '../middleware/auth';
+import { requireVerifiedCompany } from '../middleware/verified';
+import { authCompanyOrApiKey } from '../middleware/apiKey';
+import { authorize, loadById } from '../middleware/authorize';
+import JobTemplate from '../models/JobTemplate';
+
+const router = express.Router();
+
+// Templates belong to a company and use the same access as its job postings
+const canManageJobs = requireCompanyRole('owner', 'admin', 'recruiter');
+const loadTemplate = loadById(JobTemplate, 'id');
+
+router.get('/', authCompanyOrApiKey('jobs:read'), jobTemplateController.listTemplates);
+router.post('/', authCompanyOrApiKey('jobs:write'), canManageJobs, jobTemplateController.createTemplate);
+router.get('/:id', authCompanyOrApiKey('jobs:read'), authorize('read', loadTemplate), jobTemplateController.getTemplate);
+router.put('/:id', authCompanyOrApiKey('jobs:write'), canManageJobs, authorize('update', loadTemplate), jobTemplateController.updateTemplate);
+router.delete('/:id', authCompanyOrApiKey('jobs:write'), canManageJobs, authorize('delete', loadTemplate), jobTemplateController.deleteTemplate);
+router.post('/:id/jobs', authCompanyOrApiKey('jobs:write'), canManageJobs, requireVerifiedCompany, authorize('read', loadTemplate), jobTemplateController.createJobFromTemplate);
+
+export default router;
@@ -0,0 +1,14 @@
+import express from 'express';
+import * as mockOidcController from '../controllers/mockOidcController';
+
+const router = express.Router();
+
+// Token requests are form encoded
+router.use(express.urlencoded({ extended: false }));
+
+router.get('/.well-known/openid-configuration', mockOidcController.discovery);
+router.get('/jwks', mockOidcController.jwks);
+router.get('/authorize', mockOidcController.authorize);
+router.post('/token', mockOidcController.token);
+
+export default router;
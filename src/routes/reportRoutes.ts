@@ -0,0 +1,10 @@
+import express from 'express';
+import * as reportController from '../controllers/reportController';
+import { auth } from '../middleware/auth';
+
+const router = express.Router();
+
+// Users and companies can report content for moderation
+router.post('/', auth, reportController.createReport);
+
+export default router;
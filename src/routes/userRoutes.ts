@@ -1,5 +1,10 @@
 import express from 'express';
 import * as userController from '../controllers/userController';
+import * as twoFactorController from '../controllers/twoFactorController';
+import * as sessionController from '../controllers/sessionController';
+import * as oidcController from '../controllers/oidcController';
+import * as savedJobController from '../controllers/savedJobController';
+import * as savedSearchController from '../controllers/savedSearchController';
 import { authUser } from '../middleware/auth';
 import upload from '../config/multerConfig';
 
@@ -8,14 +13,39 @@ const router = express.Router();
 // Public routes
 router.post('/register', userController.register);
 router.post('/login', userController.login);
+router.post('/refresh', userController.refresh);
+router.post('/logout', userController.logout);
+router.post('/forgot-password', userController.forgotPassword);
+router.post('/reset-password', userController.resetPassword);
+router.post('/verify-email', userController.verifyEmail);
+router.post('/unlock', userController.unlockAccount);
+router.post('/2fa/verify', twoFactorController.verifyTwoFactorLogin);
+
+// Sign-in through an OpenID Connect provider
+router.get('/oidc/providers', oidcController.listProviders);
+router.get('/oidc/:provider/authorize', oidcController.startLogin);
+router.post('/oidc/:provider/callback', oidcController.completeLogin);
 
 // Protected routes (require authentication)
 router.get('/me', authUser, userController.getCurrentUser);
 router.put('/profile', authUser, userController.updateUser);
+router.put('/password', authUser, userController.changePassword);
 router.delete('/', authUser, userController.deleteUser);
+router.post('/resend-verification', authUser, userController.resendVerification);
 router.post('/experience', authUser, userController.addExperience);
 router.post('/education', authUser, userController.addEducation);
 
+// Two-factor authentication routes
+router.post('/2fa/setup', authUser, twoFactorController.setupTwoFactor);
+router.post('/2fa/enable', authUser, twoFactorController.enableTwoFactor);
+router.post('/2fa/disable', authUser, twoFactorController.disableTwoFactor);
+router.post('/2fa/recovery-codes', authUser, twoFactorController.regenerateRecoveryCodes);
+
+// Session (device) routes
+router.get('/sessions', authUser, sessionController.listSessions);
+router.delete('/sessions', authUser, sessionController.revokeAllSessions);
+router.delete('/sessions/:sessionId', authUser, sessionController.revokeSession);
+
 // Skills routes
 router.post('/skills', authUser, userController.addSkills);
 router.delete('/skills/:skill', authUser, userController.removeSkill);
@@ -26,4 +56,15 @@ router.delete('/cv', authUser, userController.deleteCV);
 router.get('/cv/info', authUser, userController.getCVInfo);
 router.get('/cv/download', authUser, userController.downloadCV);
 
+// Saved jobs routes
+router.get('/saved-jobs', authUser, savedJobController.listSavedJobs);
+router.post('/saved-jobs/:jobId', authUser, savedJobController.saveJob);
+router.delete('/saved-jobs/:jobId', authUser, savedJobController.unsaveJob);
+
+// Saved searches (job alerts) routes
+router.get('/saved-searches', authUser, savedSearchController.listSavedSearches);
+router.post('/saved-searches', authUser, savedSearchController.createSavedSearch);
+router.put('/saved-searches/:searchId', authUser, savedSearchController.updateSavedSearch);
+router.delete('/saved-searches/:searchId', authUser, savedSearchController.deleteSavedSearch);
+
 export default router;
\ No newline at end of file
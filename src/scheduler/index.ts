@@ -0,0 +1,6 @@
+// Importing a task module registers its tasks
+import './jobLifecycle';
+import './jobAlerts';
+import './salaryNormalization';
+
+export { startScheduler, stopScheduler } from './scheduler';
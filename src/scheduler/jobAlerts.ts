@@ -0,0 +1,113 @@
+import Job from '../models/Job';
+import { ICompany } from '../models/Company';
+import SavedSearch, { ISavedSearch } from '../models/SavedSearch';
+import User from '../models/User';
+import { notify } from '../utils/notifier';
+import { digestText, newJobsQuery, nextRunAfter } from '../utils/savedSearches';
+import { registerTask } from './scheduler';
+
+const jobAlertIntervalMs = (): number =>
+    parseInt(process.env.JOB_ALERT_INTERVAL_MS || '', 10) || 60 * 1000;
+
+// Jobs listed in one digest; the rest are summed up with a link to the search
+const MAX_DIGEST_JOBS = 20;
+
+type AlertResult = 'sent' | 'empty' | 'skipped';
+
+// Send one saved search's digest of jobs posted since its last run. The search is claimed
+// first by moving its run window, so only one server instance sends each digest.
+const runSavedSearch = async (search: ISavedSearch, now: Date): Promise<AlertResult> => {
+    const since = search.lastRunAt;
+    const claimed = await SavedSearch.findOneAndUpdate(
+        { _id: search._id, lastRunAt: since, nextRunAt: { $lte: now } },
+        { $set: { lastRunAt: now, nextRunAt: nextRunAfter(search.frequency, now) } },
+        { new: true }
+    );
+    if (!claimed) {
+        return 'skipped';
+    }
+
+    const user = await User.findById(search.user).select('firstName email suspendedAt');
+    if (!user) {
+        await SavedSearch.deleteOne({ _id: search._id });
+        return 'skipped';
+    }
+    // Suspended users get no alerts, and no backlog once the suspension is lifted
+    if (user.suspendedAt) {
+        return 'skipped';
+    }
+
+    const query = newJobsQuery(search.criteria, since, now);
+    if (!query) {
+        // Criteria were valid when saved; an unknown job type or currency may since have been removed
+        console.warn(`Saved search ${search.id} no longer has valid criteria`);
+        return 'skipped';
+    }
+
+    const [total, jobs] = await Promise.all([
+        Job.countDocuments(query.filter),
+        Job.find(query.filter)
+            .populate<{ company: ICompany | null }>('company', 'companyName')
+            .sort(query.sort)
+            .limit(MAX_DIGEST_JOBS)
+    ]);
+    if (total === 0) {
+        return 'empty';
+    }
+
+    try {
+        await notify({
+            kind: 'job-alert',
+            recipient: { id: user.id, email: user.email },
+            subject: total === 1
+                ? `New job for "${search.name}"`
+                : `${total} new jobs for "${search.name}"`,
+            text: digestText(user.firstName, search.name, search.criteria, jobs, total),
+            data: {
+                savedSearchId: search.id,
+                frequency: search.frequency,
+                since,
+                until: now,
+                total,
+                jobIds: jobs.map(job => job.id)
+            }
+        });
+    } catch (error) {
+        // Put the window back so these jobs are included in the next attempt
+        await SavedSearch.updateOne({ _id: search._id, lastRunAt: now }, { $set: { lastRunAt: since } });
+        throw error;
+    }
+
+    await SavedSearch.updateOne({ _id: search._id }, { $set: { lastNotifiedAt: now } });
+    return 'sent';
+};
+
+// Send the digests of every saved search that is due
+export const sendJobAlerts = async (now: Date = new Date()): Promise<{ sent: number; failed: number }> => {
+    let sent = 0;
+    let failed = 0;
+
+    for await (const search of SavedSearch.find({ nextRunAt: { $lte: now } }).sort({ nextRunAt: 1 }).cursor()) {
+        try {
+            if (await runSavedSearch(search, now) === 'sent') {
+                sent++;
+            }
+        } catch (error) {
+            failed++;
+            console.error(`Job alert for saved search ${search.id} failed:`, error);
+        }
+    }
+
+    return { sent, failed };
+};
+
+registerTask({
+    name: 'job-alerts',
+    intervalMs: jobAlertIntervalMs,
+    run: async (now) => {
+        const { sent, failed } = await sendJobAlerts(now);
+        if (sent || failed) {
+            console.log(`Job alerts: sent ${sent}, failed ${failed}`);
+        }
+    }
+});
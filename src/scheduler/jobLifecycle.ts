@@ -0,0 +1,44 @@
+import Job, { openDeadlineFilter } from '../models/Job';
+import { reviseJob, JobUpdate, SYSTEM_ACTOR } from '../utils/jobRevisions';
+import { registerTask } from './scheduler';
+
+const jobLifecycleIntervalMs = (): number =>
+    parseInt(process.env.JOB_SCHEDULER_INTERVAL_MS || '', 10) || 60 * 1000;
+
+// Apply the update to every job matching the filter, one at a time so each gets a revision
+const reviseEach = async (filter: Record<string, unknown>, update: JobUpdate): Promise<number> => {
+    const jobs = await Job.find(filter).select('_id');
+    let changed = 0;
+    for (const { _id } of jobs) {
+        if (await reviseJob({ ...filter, _id }, update, SYSTEM_ACTOR)) {
+            changed++;
+        }
+    }
+    return changed;
+};
+
+// Activate scheduled drafts whose publish date has arrived
+export const publishScheduledJobs = async (now: Date = new Date()): Promise<number> =>
+    reviseEach(
+        { status: 'draft', publishAt: { $lte: now }, ...openDeadlineFilter(now) },
+        { $set: { status: 'active', postedAt: now }, $unset: { publishAt: 1 } }
+    );
+
+// Close active jobs whose application deadline has passed
+export const closeExpiredJobs = async (now: Date = new Date()): Promise<number> =>
+    reviseEach(
+        { status: 'active', deadline: { $lte: now } },
+        { $set: { status: 'closed' } }
+    );
+
+registerTask({
+    name: 'job-lifecycle',
+    intervalMs: jobLifecycleIntervalMs,
+    run: async (now) => {
+        const published = await publishScheduledJobs(now);
+        const closed = await closeExpiredJobs(now);
+        if (published || closed) {
+            console.log(`Job scheduler: published ${published}, closed ${closed}`);
+        }
+    }
+});
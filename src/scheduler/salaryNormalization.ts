@@ -0,0 +1,47 @@
+import Job from '../models/Job';
+import { getExchangeRates } from '../config/exchangeRates';
+import { normalizeSalary } from '../utils/salary';
+import { registerTask } from './scheduler';
+
+const BATCH_SIZE = 500;
+
+// Recompute normalized salaries that were calculated with an older exchange-rate table
+export const refreshNormalizedSalaries = async (): Promise<number> => {
+    const { version } = getExchangeRates();
+    let updated = 0;
+
+    for (;;) {
+        const jobs = await Job.find({
+            $or: [{ 'salary.min': { $ne: null } }, { 'salary.max': { $ne: null } }],
+            'salary.normalized.ratesVersion': { $ne: version }
+        })
+            .select('salary')
+            .limit(BATCH_SIZE)
+            .lean();
+
+        if (jobs.length === 0) {
+            return updated;
+        }
+
+        await Job.bulkWrite(jobs.map(job => ({
+            updateOne: {
+                filter: { _id: job._id },
+                // Salaries that cannot be normalized still get the version so they are not retried
+                update: { $set: { 'salary.normalized': normalizeSalary(job.salary) || { ratesVersion: version } } }
+            }
+        })));
+
+        updated += jobs.length;
+    }
+};
+
+registerTask({
+    name: 'salary-normalization',
+    intervalMs: 60 * 60 * 1000,
+    run: async () => {
+        const updated = await refreshNormalizedSalaries();
+        if (updated) {
+            console.log(`Salary normalization: refreshed ${updated} jobs`);
+        }
+    }
+});
@@ -0,0 +1,43 @@
+// Minimal in-process scheduler for periodic background work. Every server instance runs
+// the tasks, so they must be safe to run concurrently (idempotent bulk updates).
+
+export interface ScheduledTask {
+    name: string;
+    // A function is called when the scheduler starts, so it can read settings loaded from .env
+    intervalMs: number | (() => number);
+    run: (now: Date) => Promise<unknown>;
+}
+
+const tasks: ScheduledTask[] = [];
+const timers: NodeJS.Timeout[] = [];
+
+export const registerTask = (task: ScheduledTask): void => {
+    tasks.push(task);
+};
+
+// Runs a task, logging instead of throwing so one failure does not stop the schedule
+const runTask = async (task: ScheduledTask): Promise<void> => {
+    try {
+        await task.run(new Date());
+    } catch (error) {
+        console.error(`Scheduled task "${task.name}" failed:`, error);
+    }
+};
+
+export const startScheduler = (): void => {
+    if (timers.length > 0) {
+        return;
+    }
+
+    tasks.forEach(task => {
+        runTask(task);
+        const intervalMs = typeof task.intervalMs === 'function' ? task.intervalMs() : task.intervalMs;
+        const timer = setInterval(() => runTask(task), intervalMs);
+        timer.unref();  // Never keep the process alive just for the scheduler
+        timers.push(timer);
+    });
+};
+
+export const stopScheduler = (): void => {
+    timers.splice(0).forEach(timer => clearInterval(timer));
+};
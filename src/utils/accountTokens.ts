@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import AccountToken, { IAccountToken } from '../models/AccountToken';
+import { hashToken } from './tokens';
+
+export type AccountTokenPurpose = IAccountToken['purpose'];
+
+// Issue a new single-use token. Any earlier unused token for the same purpose is discarded,
+// so only the most recently emailed link works.
+export const issueAccountToken = async (
+    accountId: mongoose.Types.ObjectId | string,
+    accountType: IAccountToken['accountType'],
+    purpose: AccountTokenPurpose,
+    ttlMinutes: number
+): Promise<string> => {
+    const token = crypto.randomBytes(32).toString('hex');
+
+    await AccountToken.deleteMany({ accountId, accountType, purpose, usedAt: { $exists: false } });
+
+    await AccountToken.create({
+        accountId,
+        accountType,
+        purpose,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000)
+    });
+
+    return token;
+};
+
+// Mark a token as used and return it. Returns null if it is unknown, expired or already used,
+// or not a string at all (it comes straight from a request body).
+export const consumeAccountToken = async (
+    token: unknown,
+    accountType: IAccountToken['accountType'],
+    purpose: AccountTokenPurpose
+): Promise<IAccountToken | null> => {
+    if (typeof token !== 'string') {
+        return null;
+    }
+
+    return AccountToken.findOneAndUpdate(
+        {
+            tokenHash: hashToken(token),
+            accountType,
+            purpose,
+            usedAt: { $exists: false },
+            expiresAt: { $gt: new Date() }
+        },
+        { $set: { usedAt: new Date() } },
+        { new: true }
+    );
+};
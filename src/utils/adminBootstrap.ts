@@ -0,0 +1,27 @@
+import Admin from '../models/Admin';
+import { validatePassword } from './passwordPolicy';
+
+// Create the first administrator from ADMIN_EMAIL / ADMIN_PASSWORD if it does not exist yet.
+// Existing admins are left untouched, so changing the env later does not reset a password.
+export const ensureBootstrapAdmin = async (): Promise<void> => {
+    const email = process.env.ADMIN_EMAIL;
+    const password = process.env.ADMIN_PASSWORD;
+
+    if (!email || !password) {
+        return;
+    }
+
+    const existing = await Admin.exists({ email: email.trim().toLowerCase() });
+    if (existing) {
+        return;
+    }
+
+    const passwordErrors = validatePassword(password);
+    if (passwordErrors.length > 0) {
+        console.error('ADMIN_PASSWORD does not meet the password policy:', passwordErrors.join(' '));
+        return;
+    }
+
+    await Admin.create({ email, password, name: process.env.ADMIN_NAME });
+    console.log(`Created administrator ${email}`);
+};
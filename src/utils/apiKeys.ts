@@ -0,0 +1,34 @@
+import crypto from 'crypto';
+import ApiKey, { IApiKey } from '../models/ApiKey';
+import { hashToken } from './tokens';
+
+const KEY_PREFIX = 'jbk';
+
+// Keys look like "jbk_<prefix>_<secret>"
+export const generateApiKey = (): { key: string; prefix: string; keyHash: string } => {
+    const prefix = crypto.randomBytes(6).toString('hex');
+    const secret = crypto.randomBytes(32).toString('hex');
+    const key = `${KEY_PREFIX}_${prefix}_${secret}`;
+    return { key, prefix, keyHash: hashToken(key) };
+};
+
+// Find the active key matching a presented value. Returns null if it is unknown or revoked.
+export const findActiveApiKey = async (key: string): Promise<IApiKey | null> => {
+    const [marker, prefix] = key.split('_');
+    if (marker !== KEY_PREFIX || !prefix) {
+        return null;
+    }
+
+    const apiKey = await ApiKey.findOne({ prefix, revokedAt: { $exists: false } });
+    if (!apiKey) {
+        return null;
+    }
+
+    const expected = Buffer.from(apiKey.keyHash, 'hex');
+    const actual = Buffer.from(hashToken(key), 'hex');
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        return null;
+    }
+
+    return apiKey;
+};
@@ -0,0 +1,71 @@
+// Minimal RFC 4180 CSV parsing: quoted fields, "" escapes, commas and line breaks inside quotes
+
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    // Excel adds a byte order mark to UTF-8 exports
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') {
+                i++;
+            }
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (inQuotes) {
+        throw new Error('Unterminated quoted field');
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    // Skip blank lines
+    return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+// Turn CSV rows into objects keyed by the header row
+export const csvToObjects = (text: string): Record<string, string>[] => {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) {
+        return [];
+    }
+
+    const keys = header.map(key => key.trim());
+    return rows.map(cells =>
+        keys.reduce<Record<string, string>>((record, key, index) => {
+            const value = cells[index]?.trim();
+            if (key && value) {
+                record[key] = value;
+            }
+            return record;
+        }, {})
+    );
+};
@@ -0,0 +1,78 @@
+import fs from 'fs';
+import defaultGazetteer from '../config/gazetteer';
+import type { IGeoPoint } from '../models/GeoPoint';
+
+export interface GazetteerEntry {
+    name: string;
+    aliases?: string[];
+    country?: string;
+    lat: number;
+    lng: number;
+}
+
+// Anything that can turn a free-text location into coordinates
+export interface Geocoder {
+    geocode(location: string): Promise<{ lat: number; lng: number } | null>;
+}
+
+// Lowercase and strip accents so "Cordoba" finds "Córdoba"
+const normalizePlace = (value: string): string =>
+    value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Looks places up in a fixed list. "Córdoba, Argentina" matches the whole string first,
+// then the first part, preferring entries whose country appears in the rest.
+export const createGazetteerGeocoder = (entries: GazetteerEntry[]): Geocoder => {
+    const byName = new Map<string, GazetteerEntry[]>();
+    entries.forEach(entry => {
+        [entry.name, ...(entry.aliases || [])].forEach(name => {
+            const key = normalizePlace(name);
+            byName.set(key, [...(byName.get(key) || []), entry]);
+        });
+    });
+
+    return {
+        async geocode(location: string) {
+            const normalized = normalizePlace(location);
+            const [place, ...rest] = normalized.split(',').map(part => part.trim());
+            const candidates = byName.get(normalized) || byName.get(place) || [];
+
+            const match = candidates.find(entry => entry.country && rest.includes(normalizePlace(entry.country)))
+                || candidates[0];
+
+            return match ? { lat: match.lat, lng: match.lng } : null;
+        }
+    };
+};
+
+const loadGazetteer = (): GazetteerEntry[] =>
+    process.env.GAZETTEER_FILE
+        ? JSON.parse(fs.readFileSync(process.env.GAZETTEER_FILE, 'utf8'))
+        : defaultGazetteer;
+
+let geocoder: Geocoder | null = null;
+
+export const getGeocoder = (): Geocoder => {
+    if (!geocoder) {
+        geocoder = createGazetteerGeocoder(loadGazetteer());
+    }
+    return geocoder;
+};
+
+// Swap the geocoder, e.g. for an external service or in tests
+export const setGeocoder = (replacement: Geocoder): void => {
+    geocoder = replacement;
+};
+
+export const geocodeLocation = async (location: unknown): Promise<IGeoPoint | null> => {
+    if (typeof location !== 'string' || !location.trim()) {
+        return null;
+    }
+
+    try {
+        const point = await getGeocoder().geocode(location);
+        return point ? { type: 'Point', coordinates: [point.lng, point.lat] } : null;
+    } catch (error) {
+        console.error('Geocoding error:', error);
+        return null;
+    }
+};
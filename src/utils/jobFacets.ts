@@ -0,0 +1,96 @@
+import { PipelineStage } from 'mongoose';
+import Job from '../models/Job';
+import Company from '../models/Company';
+import { getExchangeRates } from '../config/exchangeRates';
+
+// Most common values returned per facet
+const FACET_LIMIT = 20;
+
+// Yearly salary bands in the base currency (see utils/salary.ts)
+const SALARY_BAND_BOUNDARIES = [0, 25000, 50000, 75000, 100000, 150000, 200000];
+
+export interface FacetValue {
+    value: string;
+    count: number;
+}
+
+export interface JobFacets {
+    type: FacetValue[];
+    skills: FacetValue[];
+    location: FacetValue[];
+    experience: FacetValue[];
+    salary: { min: number; max: number | null; count: number; currency: string }[];
+    company: { id: string; name?: string; count: number }[];
+}
+
+const countBy = (field: string): PipelineStage.FacetPipelineStage[] => [
+    { $match: { [field]: { $nin: [null, ''] } } },
+    { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+    { $sort: { count: -1, _id: 1 } },
+    { $limit: FACET_LIMIT }
+];
+
+const toValues = (buckets: { _id: unknown; count: number }[]): FacetValue[] =>
+    buckets.map(bucket => ({ value: String(bucket._id), count: bucket.count }));
+
+// Counts per type, skill, location, experience, salary band and company for every job
+// matching the filter, computed in a single $facet aggregation
+export const computeJobFacets = async (filter: Record<string, any>): Promise<JobFacets> => {
+    const [result] = await Job.aggregate([
+        { $match: filter },
+        {
+            $facet: {
+                type: countBy('type'),
+                skills: [{ $unwind: '$skills' }, ...countBy('skills')],
+                location: countBy('location'),
+                experience: countBy('experience'),
+                salary: [
+                    { $match: { 'salary.normalized.max': { $type: 'number' } } },
+                    {
+                        $bucket: {
+                            groupBy: '$salary.normalized.max',
+                            boundaries: SALARY_BAND_BOUNDARIES,
+                            default: 'above',
+                            output: { count: { $sum: 1 } }
+                        }
+                    }
+                ],
+                company: [
+                    ...countBy('company'),
+                    {
+                        $lookup: {
+                            from: Company.collection.name,
+                            localField: '_id',
+                            foreignField: '_id',
+                            as: 'company'
+                        }
+                    },
+                    { $project: { count: 1, name: { $arrayElemAt: ['$company.companyName', 0] } } }
+                ]
+            }
+        }
+    ]);
+
+    const lastBoundary = SALARY_BAND_BOUNDARIES[SALARY_BAND_BOUNDARIES.length - 1];
+
+    return {
+        type: toValues(result.type),
+        skills: toValues(result.skills),
+        location: toValues(result.location),
+        experience: toValues(result.experience),
+        salary: result.salary.map((band: { _id: number | 'above'; count: number }) => {
+            const index = SALARY_BAND_BOUNDARIES.indexOf(band._id as number);
+            return {
+                min: band._id === 'above' ? lastBoundary : band._id,
+                max: band._id === 'above' ? null : SALARY_BAND_BOUNDARIES[index + 1],
+                count: band.count,
+                currency: getExchangeRates().baseCurrency
+            };
+        }),
+        company: result.company.map((bucket: any) => ({
+            id: bucket._id.toString(),
+            name: bucket.name,
+            count: bucket.count
+        }))
+    };
+};
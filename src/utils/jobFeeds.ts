@@ -0,0 +1,189 @@
+import { IJob, JobType } from '../models/Job';
+import { ICompany } from '../models/Company';
+import { SalaryPeriod } from './salary';
+import { clientUrl } from './mail';
+import { cdataElement, element, escapeXml } from './xml';
+
+// Renders active jobs for aggregators and search engines: RSS 2.0, Atom, a generic
+// XML job feed in the format Indeed and similar boards read, and schema.org JobPosting.
+
+// Read on each render so the value from .env is used
+export const feedTitle = (): string => process.env.FEED_TITLE || 'Job Board';
+
+// Jobs with their company populated
+export type FeedJob = Omit<IJob, 'company'> & { company: ICompany };
+
+// schema.org employmentType values. Remote is a work arrangement rather than a
+// contract type, so it is flagged with jobLocationType instead.
+const EMPLOYMENT_TYPES: Record<JobType, string> = {
+    'Full-time': 'FULL_TIME',
+    'Part-time': 'PART_TIME',
+    'Contract': 'CONTRACTOR',
+    'Internship': 'INTERN',
+    'Freelance': 'CONTRACTOR',
+    'Remote': 'OTHER'
+};
+
+const SALARY_UNITS: Record<SalaryPeriod, string> = {
+    hourly: 'HOUR',
+    monthly: 'MONTH',
+    yearly: 'YEAR'
+};
+
+export const jobUrl = (job: FeedJob): string => clientUrl(`/jobs/${job.id}`);
+
+const salaryText = (job: FeedJob): string | undefined => {
+    const { min, max, currency, period = 'yearly' } = job.salary || {};
+    if (min == null && max == null) {
+        return undefined;
+    }
+    const range = min != null && max != null && min !== max ? `${min}-${max}` : String(min ?? max);
+    return [range, currency, `per ${SALARY_UNITS[period].toLowerCase()}`].filter(Boolean).join(' ');
+};
+
+export const toJobPosting = (job: FeedJob): Record<string, unknown> => {
+    const { company } = job;
+    const { min, max, currency, period = 'yearly' } = job.salary || {};
+
+    return {
+        '@context': 'https://schema.org/',
+        '@type': 'JobPosting',
+        title: job.title,
+        description: job.description,
+        identifier: {
+            '@type': 'PropertyValue',
+            name: company.companyName,
+            value: job.id
+        },
+        url: jobUrl(job),
+        datePosted: job.postedAt.toISOString(),
+        ...(job.deadline && { validThrough: job.deadline.toISOString() }),
+        employmentType: EMPLOYMENT_TYPES[job.type],
+        ...(job.type === 'Remote' && { jobLocationType: 'TELECOMMUTE' }),
+        hiringOrganization: {
+            '@type': 'Organization',
+            name: company.companyName,
+            ...(company.website && { sameAs: company.website }),
+            ...(company.logo && { logo: company.logo })
+        },
+        ...(job.location && {
+            jobLocation: {
+                '@type': 'Place',
+                address: {
+                    '@type': 'PostalAddress',
+                    addressLocality: job.location
+                },
+                ...(job.geo && {
+                    geo: {
+                        '@type': 'GeoCoordinates',
+                        latitude: job.geo.coordinates[1],
+                        longitude: job.geo.coordinates[0]
+                    }
+                })
+            }
+        }),
+        ...((min != null || max != null) && currency && {
+            baseSalary: {
+                '@type': 'MonetaryAmount',
+                currency,
+                value: {
+                    '@type': 'QuantitativeValue',
+                    ...(min != null && { minValue: min }),
+                    ...(max != null && { maxValue: max }),
+                    unitText: SALARY_UNITS[period]
+                }
+            }
+        }),
+        ...(job.skills?.length && { skills: job.skills.join(', ') }),
+        ...(job.experience && { experienceRequirements: job.experience }),
+        ...(job.education && { educationRequirements: job.education }),
+        directApply: !job.applicationLink
+    };
+};
+
+export const renderRss = (jobs: FeedJob[], selfUrl: string): string => {
+    const items = jobs.map(job => [
+        '<item>',
+        element('title', `${job.title} at ${job.company.companyName}`),
+        element('link', jobUrl(job)),
+        element('guid', jobUrl(job), { isPermaLink: 'true' }),
+        element('pubDate', job.postedAt.toUTCString()),
+        element('category', job.type),
+        cdataElement('description', job.description),
+        '</item>'
+    ].join(''));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+        '<channel>',
+        element('title', feedTitle()),
+        element('link', clientUrl('/jobs')),
+        element('description', `Latest jobs on ${feedTitle()}`),
+        `<atom:link href="${escapeXml(selfUrl)}" rel="self" type="application/rss+xml"/>`,
+        element('lastBuildDate', new Date().toUTCString()),
+        ...items,
+        '</channel>',
+        '</rss>'
+    ].join('\n');
+};
+
+export const renderAtom = (jobs: FeedJob[], selfUrl: string): string => {
+    const updated = jobs.length > 0 ? jobs[0].postedAt : new Date();
+
+    const entries = jobs.map(job => [
+        '<entry>',
+        element('id', jobUrl(job)),
+        element('title', `${job.title} at ${job.company.companyName}`),
+        `<link href="${escapeXml(jobUrl(job))}"/>`,
+        element('updated', job.postedAt.toISOString()),
+        `<author>${element('name', job.company.companyName)}</author>`,
+        `<category term="${escapeXml(job.type)}"/>`,
+        element('content', job.description, { type: 'text' }),
+        '</entry>'
+    ].join(''));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<feed xmlns="http://www.w3.org/2005/Atom">',
+        element('id', selfUrl),
+        element('title', feedTitle()),
+        `<link href="${escapeXml(selfUrl)}" rel="self"/>`,
+        `<link href="${escapeXml(clientUrl('/jobs'))}"/>`,
+        element('updated', updated.toISOString()),
+        ...entries,
+        '</feed>'
+    ].join('\n');
+};
+
+// The <source>/<job> layout most job aggregators accept
+export const renderJobFeedXml = (jobs: FeedJob[]): string => {
+    const items = jobs.map(job => [
+        '<job>',
+        cdataElement('title', job.title),
+        cdataElement('date', job.postedAt.toUTCString()),
+        cdataElement('referencenumber', job.id),
+        cdataElement('url', jobUrl(job)),
+        cdataElement('company', job.company.companyName),
+        cdataElement('city', job.location),
+        cdataElement('description', job.description),
+        cdataElement('salary', salaryText(job)),
+        cdataElement('jobtype', job.type),
+        cdataElement('category', job.skills?.join(', ')),
+        cdataElement('experience', job.experience),
+        cdataElement('education', job.education),
+        cdataElement('expirationdate', job.deadline?.toUTCString()),
+        cdataElement('remotetype', job.type === 'Remote' ? 'Fully remote' : undefined),
+        '</job>'
+    ].join(''));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<source>',
+        element('publisher', feedTitle()),
+        element('publisherurl', clientUrl('/')),
+        element('lastBuildDate', new Date().toUTCString()),
+        ...items,
+        '</source>'
+    ].join('\n');
+};
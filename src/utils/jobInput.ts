@@ -0,0 +1,127 @@
+import { JOB_TYPES } from '../models/Job';
+import { isValidLatLng, toGeoPoint } from '../models/GeoPoint';
+import { salaryError } from './salary';
+
+// Validation shared by createJob and the bulk import
+
+export const REQUIRED_JOB_FIELDS = [
+    'title', 'location', 'description', 'requirements', 'type', 'skills', 'experience', 'education'
+];
+
+const EXTERNAL_REF_MAX_LENGTH = 200;
+
+// Explicit { lat, lng } sent with a job, used instead of geocoding its location
+export const coordinatesError = (coordinates: any): string | null => {
+    if (coordinates === undefined) {
+        return null;
+    }
+    return isValidLatLng(Number(coordinates?.lat), Number(coordinates?.lng))
+        ? null
+        : 'coordinates must be an object with a valid lat and lng';
+};
+
+// Check the publish date and deadline of a job that will end up with the given status.
+// Returns an error message, or null when the dates are fine.
+export const scheduleError = (status: string, publishAt: unknown, deadline: unknown): string | null => {
+    const publishDate = publishAt ? new Date(publishAt as string) : null;
+    const deadlineDate = deadline ? new Date(deadline as string) : null;
+
+    if (publishDate && isNaN(publishDate.getTime())) {
+        return 'publishAt must be a valid date';
+    }
+    if (deadlineDate && isNaN(deadlineDate.getTime())) {
+        return 'deadline must be a valid date';
+    }
+    if (publishDate && status !== 'draft') {
+        return 'Only draft jobs can be scheduled for publishing';
+    }
+    if (publishDate && deadlineDate && deadlineDate <= publishDate) {
+        return 'The deadline must be after the publish date';
+    }
+    if (status === 'active' && deadlineDate && deadlineDate <= new Date()) {
+        return 'The application deadline has already passed';
+    }
+    return null;
+};
+
+export interface JobInputOptions {
+    // Status of the job the input replaces, when it updates an existing job
+    currentStatus?: string;
+}
+
+// Check a job posting and turn it into the fields to store (without the company).
+// Returns the fields, the missing required fields, or an error message.
+export const validateJobInput = (
+    body: Record<string, any>,
+    options: JobInputOptions = {}
+): { input?: Record<string, unknown>; missing?: string[]; error?: string } => {
+    const {
+        title,
+        location,
+        description,
+        requirements,
+        type,
+        salary,
+        applicationLink,
+        skills,
+        experience,
+        education,
+        deadline,
+        status,
+        publishAt,
+        coordinates,
+        externalRef
+    } = body;
+
+    const missing = REQUIRED_JOB_FIELDS.filter(field => !body[field]);
+    if (missing.length > 0) {
+        return { missing };
+    }
+
+    if (!JOB_TYPES.includes(type)) {
+        return { error: `type must be one of ${JOB_TYPES.join(', ')}` };
+    }
+
+    const invalidSalary = salaryError(salary);
+    if (invalidSalary) {
+        return { error: invalidSalary };
+    }
+
+    const invalidCoordinates = coordinatesError(coordinates);
+    if (invalidCoordinates) {
+        return { error: invalidCoordinates };
+    }
+
+    if (externalRef !== undefined && (typeof externalRef !== 'string' || !externalRef.trim() || externalRef.length > EXTERNAL_REF_MAX_LENGTH)) {
+        return { error: `externalRef must be a non-empty string of at most ${EXTERNAL_REF_MAX_LENGTH} characters` };
+    }
+
+    // A publish date schedules a new job as a draft until then. Updates keep the job's
+    // status, and the dates are checked against it, unless the input sets one.
+    const { currentStatus } = options;
+    const jobStatus = status || currentStatus || (publishAt ? 'draft' : 'active');
+    const dateError = scheduleError(jobStatus, publishAt, deadline);
+    if (dateError) {
+        return { error: dateError };
+    }
+
+    return {
+        input: {
+            title,
+            location,
+            description,
+            requirements: Array.isArray(requirements) ? requirements : [requirements],
+            type,
+            salary,
+            applicationLink,
+            skills: Array.isArray(skills) ? skills : String(skills).split(',').map(skill => skill.trim()),
+            experience,
+            education,
+            deadline,
+            publishAt,
+            ...((status || !currentStatus) && { status: jobStatus }),
+            ...(externalRef !== undefined && { externalRef: externalRef.trim() }),
+            ...(coordinates && { geo: toGeoPoint(Number(coordinates.lat), Number(coordinates.lng)) })
+        }
+    };
+};
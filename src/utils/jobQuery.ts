@@ -0,0 +1,346 @@
+import mongoose from 'mongoose';
+import Job, { IJob, JOB_TYPES, JobType, openDeadlineFilter } from '../models/Job';
+import { isValidLatLng } from '../models/GeoPoint';
+import { computeJobFacets, JobFacets } from './jobFacets';
+import { afterCursor, cursorPage, parseCursor, withTiebreaker, CursorRequest, SortSpec } from './pagination';
+import { escapeRegex } from './regex';
+import { isSupportedCurrency, toYearlyBase, SalaryPeriod, SALARY_PERIODS } from './salary';
+
+// Parses the public job search parameters into a MongoDB filter and sort.
+// Every value from the query string is checked here, so controllers never pass
+// raw user input (regexes, ids, operators) to the database.
+//
+// Strict mode (the /query endpoint) rejects anything invalid with a list of errors.
+// The older listing endpoints stay lenient: bad values are clamped or ignored, and
+// filters with values that cannot match (an unknown type, a malformed company id)
+// simply find no jobs.
+
+export const JOB_SORT_ORDERS = ['relevance', 'newest', 'salary_desc', 'salary_asc'] as const;
+export type JobSortOrder = typeof JOB_SORT_ORDERS[number];
+
+const SORTS: Record<Exclude<JobSortOrder, 'relevance'>, SortSpec> = {
+    newest: { postedAt: -1 },
+    salary_desc: { 'salary.normalized.max': -1, postedAt: -1 },
+    salary_asc: { 'salary.normalized.min': 1, postedAt: -1 }
+};
+
+const TEXT_MAX_LENGTH = 200;
+const FIELD_MAX_LENGTH = 100;
+const MAX_SKILLS = 20;
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+const EARTH_RADIUS_KM = 6378.1;
+const DEFAULT_SEARCH_RADIUS_KM = 25;
+const MAX_SEARCH_RADIUS_KM = 20000;
+
+export interface JobQuery {
+    filter: Record<string, any>;
+    sort: Record<string, any>;
+    projection?: Record<string, any>;
+    text?: string;
+    cursor?: CursorRequest;  // Set in cursor mode, where page is ignored
+    page: number;
+    limit: number;
+    facets: boolean;
+}
+
+export interface ParseJobQueryOptions {
+    strict?: boolean;
+    // searchJobs only makes sense with a search term
+    requireText?: boolean;
+}
+
+type RawQuery = Record<string, unknown>;
+
+// Matches no document; used for lenient filters whose value cannot match anything
+const NOTHING = { $in: [] };
+
+// Query parameters must appear once; ?type=a&type=b is rejected rather than guessed at
+const single = (query: RawQuery, name: string, errors: string[]): string | undefined => {
+    const value = query[name];
+    if (value === undefined) {
+        return undefined;
+    }
+    if (typeof value !== 'string') {
+        errors.push(`${name} must be given once as a plain value`);
+        return undefined;
+    }
+    const trimmed = value.trim();
+    return trimmed === '' ? undefined : trimmed;
+};
+
+const boundedText = (query: RawQuery, name: string, maxLength: number, errors: string[]): string | undefined => {
+    const value = single(query, name, errors);
+    if (value !== undefined && value.length > maxLength) {
+        errors.push(`${name} must be at most ${maxLength} characters`);
+        return undefined;
+    }
+    return value;
+};
+
+const commaList = (value: string): string[] =>
+    value.split(',').map(item => item.trim()).filter(Boolean);
+
+const positiveInt = (query: RawQuery, name: string, fallback: number, errors: string[], max?: number): number => {
+    const value = single(query, name, errors);
+    if (value === undefined) {
+        return fallback;
+    }
+    const number = Number(value);
+    if (!Number.isSafeInteger(number) || number < 1) {
+        errors.push(`${name} must be a positive whole number`);
+        return fallback;
+    }
+    if (max !== undefined && number > max) {
+        errors.push(`${name} must be at most ${max}`);
+        return fallback;
+    }
+    return number;
+};
+
+const nonNegativeNumber = (query: RawQuery, name: string, errors: string[]): number | undefined => {
+    const value = single(query, name, errors);
+    if (value === undefined) {
+        return undefined;
+    }
+    const number = Number(value);
+    if (!(number >= 0) || !Number.isFinite(number)) {
+        errors.push(`${name} must be a positive number`);
+        return undefined;
+    }
+    return number;
+};
+
+// ?lat=&lng=&radius= (km) keeps jobs within that distance
+const parseRadius = (query: RawQuery, errors: string[]): object | undefined => {
+    const latValue = single(query, 'lat', errors);
+    const lngValue = single(query, 'lng', errors);
+    if (latValue === undefined && lngValue === undefined) {
+        return undefined;
+    }
+
+    const lat = Number(latValue);
+    const lng = Number(lngValue);
+    const radius = nonNegativeNumber(query, 'radius', errors) ?? DEFAULT_SEARCH_RADIUS_KM;
+
+    if (latValue === undefined || lngValue === undefined || !isValidLatLng(lat, lng)) {
+        errors.push('lat and lng must be valid coordinates');
+        return undefined;
+    }
+    if (!(radius > 0) || radius > MAX_SEARCH_RADIUS_KM) {
+        errors.push('radius must be a positive number of kilometres');
+        return undefined;
+    }
+
+    return { geo: { $geoWithin: { $centerSphere: [[lng, lat], radius / EARTH_RADIUS_KM] } } };
+};
+
+// Salary bounds are compared against each job's yearly range in the base currency.
+// A job matches when its range overlaps the requested one. ?currency= also limits
+// the results to jobs paid in that currency.
+const parseSalary = (query: RawQuery, errors: string[]): Record<string, any> => {
+    const filter: Record<string, any> = {};
+
+    const currency = single(query, 'currency', errors)?.toUpperCase();
+    if (currency !== undefined) {
+        if (isSupportedCurrency(currency)) {
+            filter['salary.currency'] = currency;
+        } else {
+            errors.push(`Unsupported currency ${currency}`);
+            filter['salary.currency'] = NOTHING;
+        }
+    }
+
+    const period = (single(query, 'salaryPeriod', errors) || 'yearly') as SalaryPeriod;
+    if (!SALARY_PERIODS.includes(period)) {
+        errors.push(`salaryPeriod must be one of ${SALARY_PERIODS.join(', ')}`);
+        return filter;
+    }
+
+    const salaryMin = nonNegativeNumber(query, 'salaryMin', errors);
+    const salaryMax = nonNegativeNumber(query, 'salaryMax', errors);
+    if (salaryMin !== undefined && salaryMax !== undefined && salaryMin > salaryMax) {
+        errors.push('salaryMin must not be greater than salaryMax');
+        return filter;
+    }
+
+    const base = isSupportedCurrency(currency) ? currency : undefined;
+    if (salaryMin !== undefined) {
+        filter['salary.normalized.max'] = { $gte: toYearlyBase(salaryMin, base, period) };
+    }
+    if (salaryMax !== undefined) {
+        filter['salary.normalized.min'] = { $lte: toYearlyBase(salaryMax, base, period) };
+    }
+    return filter;
+};
+
+// Lenient mode reads the first of repeated parameters, as Express used to be relied on for
+const firstValues = (query: RawQuery): RawQuery =>
+    Object.fromEntries(Object.entries(query).map(([name, value]) => [name, Array.isArray(value) ? value[0] : value]));
+
+// Turn req.query into a validated JobQuery. Returns the query, or the list of problems with it.
+// Outside strict mode only a missing or too long search term and a bad cursor are reported.
+export const parseJobQuery = (
+    rawQuery: RawQuery,
+    options: ParseJobQueryOptions = {}
+): { query?: JobQuery; errors: string[] } => {
+    const { strict = false } = options;
+    const query = strict ? rawQuery : firstValues(rawQuery);
+    const errors: string[] = [];
+    // Problems that only strict mode reports; lenient mode falls back to the default
+    const invalid: string[] = strict ? errors : [];
+
+    // Jobs past their deadline are hidden even before the scheduler gets to close them
+    const filter: Record<string, any> = { status: 'active', ...openDeadlineFilter() };
+
+    // A search term that is too long is reported as such rather than as a missing one
+    const errorsBeforeText = errors.length;
+    const text = boundedText(query, 'q', TEXT_MAX_LENGTH, errors);
+    if (text) {
+        filter.$text = { $search: text };
+    } else if (options.requireText && errors.length === errorsBeforeText) {
+        errors.push('Search term (q) is required');
+    }
+
+    const title = boundedText(query, 'title', FIELD_MAX_LENGTH, invalid);
+    if (title) {
+        filter.title = { $regex: escapeRegex(title), $options: 'i' };
+    }
+
+    const location = boundedText(query, 'location', FIELD_MAX_LENGTH, invalid);
+    if (location) {
+        filter.location = { $regex: escapeRegex(location), $options: 'i' };
+    }
+
+    // ?type=Remote,Contract matches any of the listed types
+    const typeValue = single(query, 'type', invalid);
+    if (typeValue) {
+        const types: JobType[] = [];
+        commaList(typeValue).forEach(value => {
+            const type = JOB_TYPES.find(candidate => candidate.toLowerCase() === value.toLowerCase());
+            if (type) {
+                types.push(type);
+            } else {
+                invalid.push(`Unknown job type ${value}. Allowed values: ${JOB_TYPES.join(', ')}`);
+            }
+        });
+        // In lenient mode only unknown types leaves nothing to match
+        filter.type = types.length > 0 ? { $in: types } : NOTHING;
+    }
+
+    // ?skills=Node,React matches jobs asking for any of them, or all of them with ?skillsMatch=all
+    const skillsValue = single(query, 'skills', invalid);
+    if (skillsValue) {
+        const skills = commaList(skillsValue);
+        const match = single(query, 'skillsMatch', invalid) || 'any';
+        if (skills.length > MAX_SKILLS) {
+            invalid.push(`At most ${MAX_SKILLS} skills can be searched at once`);
+        } else if (skills.some(skill => skill.length > FIELD_MAX_LENGTH)) {
+            invalid.push(`Skills must be at most ${FIELD_MAX_LENGTH} characters`);
+        } else if (match !== 'any' && match !== 'all') {
+            invalid.push('skillsMatch must be any or all');
+        }
+        if (skills.length > 0) {
+            filter.skills = { [match === 'all' ? '$all' : '$in']: skills.slice(0, MAX_SKILLS) };
+        }
+    }
+
+    const company = single(query, 'company', invalid);
+    if (company !== undefined) {
+        if (mongoose.Types.ObjectId.isValid(company)) {
+            filter.company = new mongoose.Types.ObjectId(company);
+        } else {
+            invalid.push('company must be a valid company id');
+            filter.company = NOTHING;
+        }
+    }
+
+    Object.assign(filter, parseSalary(query, invalid), parseRadius(query, invalid));
+
+    // Relevance is the natural order of a text search; everything else defaults to newest first
+    const defaultOrder: JobSortOrder = text ? 'relevance' : 'newest';
+    let sortOrder = (single(query, 'sort', invalid) || defaultOrder) as JobSortOrder;
+    if (!JOB_SORT_ORDERS.includes(sortOrder) || (sortOrder === 'relevance' && !text)) {
+        invalid.push(JOB_SORT_ORDERS.includes(sortOrder)
+            ? 'sort=relevance needs a search term (q)'
+            : `sort must be one of ${JOB_SORT_ORDERS.join(', ')}`);
+        sortOrder = defaultOrder;
+    }
+
+    let sort: Record<string, any> = SORTS.newest;
+    let projection: Record<string, any> | undefined;
+    let cursor: CursorRequest | undefined;
+
+    if (sortOrder === 'relevance') {
+        projection = { score: { $meta: 'textScore' } };
+        sort = { score: { $meta: 'textScore' }, postedAt: -1 };
+        // Text scores cannot be compared in a query, so there is nothing to resume from
+        if (query.cursor !== undefined || query.pagination === 'cursor') {
+            errors.push('Cursor pagination is not available with sort=relevance');
+        }
+    } else {
+        const keyset = withTiebreaker(SORTS[sortOrder]);
+        sort = keyset;
+        // Sorting by pay only makes sense for jobs that state one
+        if (sortOrder !== 'newest') {
+            filter['salary.normalized.min'] = { ...filter['salary.normalized.min'], $exists: true };
+        }
+
+        const parsed = parseCursor(query, keyset);
+        if (parsed.error) {
+            errors.push(parsed.error);
+        }
+        cursor = parsed.cursor;
+    }
+
+    const page = positiveInt(query, 'page', 1, invalid);
+    // Lenient mode caps large limits instead of falling back to the default
+    const limit = strict || !(Number(query.limit) > MAX_LIMIT)
+        ? positiveInt(query, 'limit', DEFAULT_LIMIT, invalid, MAX_LIMIT)
+        : MAX_LIMIT;
+
+    const facetsValue = single(query, 'facets', invalid);
+    if (facetsValue !== undefined && facetsValue !== 'true' && facetsValue !== 'false') {
+        invalid.push('facets must be true or false');
+    }
+
+    if (errors.length > 0) {
+        return { errors };
+    }
+
+    return {
+        query: { filter, sort, projection, text, cursor, page, limit, facets: facetsValue === 'true' },
+        errors
+    };
+};
+
+// Run a parsed query. Page mode counts the matches, cursor mode returns the next cursor instead.
+// Facets cover the whole result set, not just the requested page.
+export const runJobQuery = async (
+    query: JobQuery
+): Promise<{ jobs: IJob[]; total?: number; nextCursor?: string | null; facets?: JobFacets }> => {
+    if (query.cursor) {
+        const { after, limit } = query.cursor;
+        const [docs, facets] = await Promise.all([
+            Job.find(afterCursor(query.filter, query.sort, after))
+                .populate('company', 'companyName location industry logo')
+                .sort(query.sort)
+                .limit(limit + 1),
+            query.facets ? computeJobFacets(query.filter) : Promise.resolve(undefined)
+        ]);
+        const { items, nextCursor } = cursorPage(docs, query.sort, limit);
+        return { jobs: items, nextCursor, facets };
+    }
+
+    const [total, jobs, facets] = await Promise.all([
+        Job.countDocuments(query.filter),
+        Job.find(query.filter, query.projection)
+            .populate('company', 'companyName location industry logo')
+            .sort(query.sort)
+            .skip((query.page - 1) * query.limit)
+            .limit(query.limit),
+        query.facets ? computeJobFacets(query.filter) : Promise.resolve(undefined)
+    ]);
+
+    return { jobs, total, facets };
+};
@@ -0,0 +1,186 @@
+import mongoose from 'mongoose';
+import Job, { IJob } from '../models/Job';
+import JobRevision, { IJobRevision } from '../models/JobRevision';
+import { Principal } from '../policies';
+
+// Every change to what a posting says is stored as a JobRevision with a full snapshot,
+// so we can show what a candidate saw when they applied. Jobs carry their current
+// revision number, which also guards against two changes racing each other.
+
+// The fields candidates see. Derived data (coordinates, normalized salary) is left out.
+export const REVISION_FIELDS = [
+    'title', 'location', 'description', 'requirements', 'type', 'salary', 'applicationLink',
+    'skills', 'experience', 'education', 'deadline', 'publishAt', 'status', 'postedAt'
+] as const;
+
+export type RevisionActor = IJobRevision['changedBy'];
+
+export const SYSTEM_ACTOR: RevisionActor = { kind: 'system' };
+
+export type JobUpdate = { $set?: Record<string, unknown>; $unset?: Record<string, 1> };
+
+export const actorOf = (principal: Principal): RevisionActor => {
+    if (principal.kind === 'admin') {
+        return { kind: 'admin', account: new mongoose.Types.ObjectId(principal.id) };
+    }
+    if (principal.kind === 'company') {
+        return {
+            kind: 'company',
+            account: new mongoose.Types.ObjectId(principal.id),
+            ...(principal.memberId && { member: new mongoose.Types.ObjectId(principal.memberId) }),
+            ...(principal.apiKey && { apiKey: new mongoose.Types.ObjectId(principal.apiKey.id) })
+        };
+    }
+    throw new Error('Only companies and admins can change job postings');
+};
+
+export const snapshotOf = (job: IJob): Record<string, unknown> => {
+    const data = job.toObject({ depopulate: true }) as Record<string, any>;
+    const snapshot: Record<string, unknown> = {};
+
+    REVISION_FIELDS.forEach(field => {
+        if (data[field] !== undefined && data[field] !== null) {
+            snapshot[field] = data[field];
+        }
+    });
+
+    if (data.salary) {
+        const { normalized, ...salary } = data.salary;
+        snapshot.salary = salary;
+    }
+
+    return snapshot;
+};
+
+// Compare by value, ignoring the key order of nested objects such as salary
+const canonical = (value: unknown): unknown => {
+    if (value instanceof Date || value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(canonical);
+    }
+    return Object.keys(value)
+        .sort()
+        .reduce((sorted, key) => ({ ...sorted, [key]: canonical((value as Record<string, unknown>)[key]) }), {});
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+
+export const diffSnapshots = (before: Record<string, unknown>, after: Record<string, unknown>) =>
+    REVISION_FIELDS
+        .filter(field => !sameValue(before[field], after[field]))
+        .map(field => ({ field, from: before[field], to: after[field] }));
+
+// Jobs created before history was kept have no revision field stored yet
+const revisionFilter = (revision: number) => (revision === 1 ? { $in: [1, null] } : revision);
+
+// Store a revision of the job as it is now, unless that revision is already stored
+const recordRevision = async (
+    job: IJob,
+    actor: RevisionActor,
+    previous: Record<string, unknown>
+): Promise<void> => {
+    const snapshot = snapshotOf(job);
+    try {
+        await JobRevision.updateOne(
+            { job: job._id, revision: job.revision },
+            {
+                $setOnInsert: {
+                    changedBy: actor,
+                    changedAt: new Date(),
+                    changes: diffSnapshots(previous, snapshot),
+                    snapshot
+                }
+            },
+            { upsert: true }
+        );
+    } catch (error) {
+        // Someone else recorded it first
+        if ((error as { code?: number }).code !== 11000) {
+            throw error;
+        }
+    }
+};
+
+// Make sure the job's current revision is stored: right after it is created, before
+// the first change to a job that predates revision history, and to fill in a revision
+// whose record was lost because the process stopped right after updating the job.
+// Revisions recorded late are stamped with the time they were recorded, never earlier,
+// so history never claims a posting said something before we knew it did.
+export const ensureRevisionRecorded = async (job: IJob, actor: RevisionActor = SYSTEM_ACTOR): Promise<void> => {
+    if (await JobRevision.exists({ job: job._id, revision: job.revision })) {
+        return;
+    }
+
+    const previous = job.revision > 1
+        ? await JobRevision.findOne({ job: job._id, revision: job.revision - 1 }).select('snapshot')
+        : null;
+    await recordRevision(job, actor, previous?.snapshot || {});
+};
+
+// Apply an update to a loaded job. Changes to posting fields bump the revision and are
+// recorded; other updates are written as they are. Returns null when the job changed
+// since it was loaded, so the caller can reload or report a conflict.
+export const applyJobUpdate = async (job: IJob, update: JobUpdate, actor: RevisionActor): Promise<IJob | null> => {
+    const before = snapshotOf(job);
+
+    // Cast the update the way mongoose will, to see whether any posting field changes
+    const preview = Job.hydrate(job.toObject());
+    preview.set(update.$set || {});
+    Object.keys(update.$unset || {}).forEach(field => preview.set(field, undefined));
+
+    if (diffSnapshots(before, snapshotOf(preview)).length === 0) {
+        return Job.findOneAndUpdate({ _id: job._id }, update, { new: true, runValidators: true });
+    }
+
+    await ensureRevisionRecorded(job);
+
+    const updated = await Job.findOneAndUpdate(
+        { _id: job._id, revision: revisionFilter(job.revision) },
+        { ...update, $inc: { revision: 1 } },
+        { new: true, runValidators: true }
+    );
+    if (!updated) {
+        return null;
+    }
+
+    // If this fails, ensureRevisionRecorded fills the revision in on the next read or change
+    await recordRevision(updated, actor, before);
+
+    return updated;
+};
+
+// Update the job matching `filter`, reloading and retrying if it changes in between.
+// Returns null when no job matches (any more). For background tasks and moderation.
+export const reviseJob = async (
+    filter: Record<string, unknown>,
+    update: JobUpdate,
+    actor: RevisionActor,
+    attempts = 3
+): Promise<IJob | null> => {
+    for (let attempt = 0; attempt < attempts; attempt++) {
+        const job = await Job.findOne(filter);
+        if (!job) {
+            return null;
+        }
+        const updated = await applyJobUpdate(job, update, actor);
+        if (updated) {
+            return updated;
+        }
+    }
+    throw new Error('Job kept changing while it was being updated');
+};
+
+// The revision that was live at the given date, or null if there is none: the job was
+// not posted yet, or history was not kept for it yet (see historyStart)
+export const revisionAt = async (job: IJob, date: Date): Promise<IJobRevision | null> => {
+    await ensureRevisionRecorded(job);
+    return JobRevision.findOne({ job: job._id, changedAt: { $lte: date } }).sort({ revision: -1 });
+};
+
+// When the first revision of the job was recorded. Earlier contents are unknown.
+export const historyStart = async (jobId: mongoose.Types.ObjectId | string): Promise<Date | null> => {
+    const first = await JobRevision.findOne({ job: jobId }).sort({ revision: 1 }).select('changedAt');
+    return first?.changedAt ?? null;
+};
@@ -0,0 +1,88 @@
+// Job template fields and {{variable}} substitution
+
+// Posting fields a template can hold. Scheduling (status, deadline, publishAt) is chosen per job.
+export const TEMPLATE_FIELDS = [
+    'title', 'location', 'description', 'requirements', 'type', 'salary',
+    'applicationLink', 'skills', 'experience', 'education'
+] as const;
+
+// Fields whose text may contain variables
+const TEXT_FIELDS = ['title', 'location', 'description', 'requirements', 'applicationLink', 'skills', 'experience', 'education'];
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+const MAX_VARIABLE_LENGTH = 200;
+
+// Copy the template fields present in `source` (a request body or a job)
+export const pickTemplateFields = (source: Record<string, any>): Record<string, unknown> => {
+    const fields: Record<string, unknown> = {};
+    TEMPLATE_FIELDS.forEach(field => {
+        if (source[field] !== undefined && source[field] !== null) {
+            fields[field] = source[field];
+        }
+    });
+
+    // Derived salary data is recalculated for every job
+    if (fields.salary && typeof fields.salary === 'object') {
+        const salary = fields.salary as Record<string, unknown>;
+        const posted = Object.fromEntries(
+            ['min', 'max', 'currency', 'period'].filter(key => salary[key] != null).map(key => [key, salary[key]])
+        );
+        if (Object.keys(posted).length > 0) {
+            fields.salary = posted;
+        } else {
+            delete fields.salary;
+        }
+    }
+    return fields;
+};
+
+const textsOf = (fields: Record<string, unknown>): string[] =>
+    TEXT_FIELDS.flatMap(field => {
+        const value = fields[field];
+        if (Array.isArray(value)) {
+            return value.filter((item): item is string => typeof item === 'string');
+        }
+        return typeof value === 'string' ? [value] : [];
+    });
+
+// Names of the variables used anywhere in the template
+export const variablesIn = (fields: Record<string, unknown>): string[] => {
+    const names = new Set<string>();
+    textsOf(fields).forEach(text => {
+        for (const match of text.matchAll(VARIABLE_PATTERN)) {
+            names.add(match[1]);
+        }
+    });
+    return [...names];
+};
+
+// Replace every {{variable}} with its value. Returns the filled fields, or the names of
+// variables that were not given a value.
+export const fillTemplate = (
+    fields: Record<string, unknown>,
+    values: Record<string, unknown> = {}
+): { fields?: Record<string, unknown>; missing?: string[]; error?: string } => {
+    const required = variablesIn(fields);
+
+    const missing = required.filter(name => typeof values[name] !== 'string' || !(values[name] as string).trim());
+    if (missing.length > 0) {
+        return { missing };
+    }
+    if (required.some(name => (values[name] as string).length > MAX_VARIABLE_LENGTH)) {
+        return { error: `Template variables must be at most ${MAX_VARIABLE_LENGTH} characters` };
+    }
+
+    const fill = (text: string) => text.replace(VARIABLE_PATTERN, (_match, name: string) => (values[name] as string).trim());
+
+    const filled: Record<string, unknown> = { ...fields };
+    TEXT_FIELDS.forEach(field => {
+        const value = filled[field];
+        if (Array.isArray(value)) {
+            filled[field] = value.map(item => (typeof item === 'string' ? fill(item) : item));
+        } else if (typeof value === 'string') {
+            filled[field] = fill(value);
+        }
+    });
+
+    return { fields: filled };
+};
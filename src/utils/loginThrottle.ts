@@ -0,0 +1,160 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import LoginAttempt from '../models/LoginAttempt';
+import { IAccountToken } from '../models/AccountToken';
+import { issueAccountToken, consumeAccountToken } from './accountTokens';
+import { sendMail, clientUrl } from './mail';
+
+type LoginAccountType = IAccountToken['accountType'];
+
+// After this many failures each new attempt has to wait 1s, 2s, 4s, ... (capped)
+const DELAY_AFTER_FAILURES = 3;
+const MAX_DELAY_SECONDS = 60;
+// After this many failures the account is locked
+const LOCK_AFTER_FAILURES = 10;
+const LOCK_MINUTES = 15;
+// Failures from a single IP across all accounts
+const IP_FAILURE_LIMIT = 50;
+// Counters reset once no failure happened for this long
+const FAILURE_WINDOW_MINUTES = 15;
+const UNLOCK_TOKEN_TTL_MINUTES = 60;
+
+export interface LoginBlock {
+    status: 429 | 423;
+    message: string;
+    retryAfter: number; // seconds
+}
+
+export const loginThrottleKey = (accountType: LoginAccountType, email: unknown): string =>
+    `${accountType}:${String(email).trim().toLowerCase()}`;
+
+const ipKey = (ip: string | undefined): string => `ip:${ip || 'unknown'}`;
+
+const secondsUntil = (date: Date): number =>
+    Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+
+const lockedBlock = (lockedUntil: Date): LoginBlock => ({
+    status: 423,
+    message: 'Account temporarily locked due to too many failed login attempts. ' +
+        'Check your email for an unlock link or try again later.',
+    retryAfter: secondsUntil(lockedUntil)
+});
+
+// Decide whether a login attempt may proceed. Returns the reason when it may not.
+export const checkLoginAllowed = async (accountKey: string, ip: string | undefined): Promise<LoginBlock | null> => {
+    const now = new Date();
+    const [accountAttempt, ipAttempt] = await Promise.all([
+        LoginAttempt.findOne({ key: accountKey }),
+        LoginAttempt.findOne({ key: ipKey(ip) })
+    ]);
+
+    if (accountAttempt?.lockedUntil) {
+        if (accountAttempt.lockedUntil > now) {
+            return lockedBlock(accountAttempt.lockedUntil);
+        }
+        // The lock ran out: start counting from scratch
+        await LoginAttempt.deleteOne({ _id: accountAttempt._id });
+    } else if (accountAttempt && accountAttempt.failures >= DELAY_AFTER_FAILURES) {
+        const delaySeconds = Math.min(2 ** (accountAttempt.failures - DELAY_AFTER_FAILURES), MAX_DELAY_SECONDS);
+        const nextAllowedAt = new Date(accountAttempt.lastFailureAt.getTime() + delaySeconds * 1000);
+
+        if (nextAllowedAt > now) {
+            return {
+                status: 429,
+                message: 'Too many failed login attempts. Please wait before trying again.',
+                retryAfter: secondsUntil(nextAllowedAt)
+            };
+        }
+    }
+
+    if (ipAttempt && ipAttempt.failures >= IP_FAILURE_LIMIT && ipAttempt.expiresAt > now) {
+        return {
+            status: 429,
+            message: 'Too many failed login attempts from this network. Please try again later.',
+            retryAfter: secondsUntil(ipAttempt.expiresAt)
+        };
+    }
+
+    return null;
+};
+
+const incrementFailures = (key: string) => {
+    const now = new Date();
+    return LoginAttempt.findOneAndUpdate(
+        { key },
+        {
+            $inc: { failures: 1 },
+            $set: {
+                lastFailureAt: now,
+                expiresAt: new Date(now.getTime() + FAILURE_WINDOW_MINUTES * 60 * 1000)
+            }
+        },
+        { upsert: true, new: true }
+    );
+};
+
+// Count a failed login. Returns the lock when this failure locked the account.
+export const recordLoginFailure = async (accountKey: string, ip: string | undefined): Promise<LoginBlock | null> => {
+    const [accountAttempt] = await Promise.all([
+        incrementFailures(accountKey),
+        incrementFailures(ipKey(ip))
+    ]);
+
+    if (accountAttempt && accountAttempt.failures >= LOCK_AFTER_FAILURES && !accountAttempt.lockedUntil) {
+        const lockedUntil = new Date(Date.now() + LOCK_MINUTES * 60 * 1000);
+        await LoginAttempt.updateOne(
+            { _id: accountAttempt._id },
+            { $set: { lockedUntil, expiresAt: lockedUntil } }
+        );
+        return lockedBlock(lockedUntil);
+    }
+
+    return null;
+};
+
+// A successful login clears the account's counter (the IP counter keeps running)
+export const recordLoginSuccess = async (accountKey: string): Promise<void> => {
+    await LoginAttempt.deleteOne({ key: accountKey });
+};
+
+export const sendLoginBlocked = (res: Response, block: LoginBlock) => {
+    res.set('Retry-After', String(block.retryAfter));
+    return res.status(block.status).json({
+        message: block.message,
+        retryAfter: block.retryAfter
+    });
+};
+
+// Email the owner of a locked account a link to unlock it right away
+export const sendUnlockEmail = async (
+    accountId: mongoose.Types.ObjectId | string,
+    accountType: LoginAccountType,
+    email: string
+): Promise<void> => {
+    const token = await issueAccountToken(accountId, accountType, 'account-unlock', UNLOCK_TOKEN_TTL_MINUTES);
+    const unlockLink = clientUrl('/unlock-account', { token, type: accountType });
+
+    await sendMail({
+        to: email,
+        subject: 'Your account has been locked',
+        text: `We noticed ${LOCK_AFTER_FAILURES} failed attempts to sign in to your account, so it has been ` +
+            `locked for ${LOCK_MINUTES} minutes.\n\nIf this was you, open the link below to unlock it now:\n\n` +
+            `${unlockLink}\n\nIf it was not you, consider resetting your password.`
+    });
+};
+
+// Lift the lock using an unlock token. Returns false if the token is not valid.
+export const unlockWithToken = async (token: string, accountType: LoginAccountType): Promise<boolean> => {
+    const unlockToken = await consumeAccountToken(token, accountType, 'account-unlock');
+    if (!unlockToken) {
+        return false;
+    }
+
+    const account = await mongoose.model(accountType).findById(unlockToken.accountId).select('email');
+    if (!account) {
+        return false;
+    }
+
+    await LoginAttempt.deleteOne({ key: loginThrottleKey(accountType, account.email) });
+    return true;
+};
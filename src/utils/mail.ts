@@ -0,0 +1,83 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+export interface SentMail extends MailMessage {
+    sentAt: Date;
+}
+
+// Anything able to deliver a message (SMTP, a provider API, ...) can be plugged in
+export interface MailTransport {
+    send(message: MailMessage): Promise<void>;
+}
+
+export interface OutboxTransport extends MailTransport {
+    messages: SentMail[];
+    clear(): void;
+}
+
+// Messages the outbox keeps in memory; older ones are dropped so it does not grow forever
+const OUTBOX_LIMIT = 100;
+
+// Development/test transport: keeps the latest messages in memory and, when a directory
+// is given, also writes each one to a JSON file there.
+export const createOutboxTransport = (directory?: string): OutboxTransport => {
+    const messages: SentMail[] = [];
+    let sentCount = 0;
+
+    return {
+        messages,
+        clear() {
+            messages.length = 0;
+        },
+        async send(message: MailMessage) {
+            const sent: SentMail = { ...message, sentAt: new Date() };
+            sentCount++;
+            messages.push(sent);
+            if (messages.length > OUTBOX_LIMIT) {
+                messages.splice(0, messages.length - OUTBOX_LIMIT);
+            }
+
+            if (directory) {
+                await fs.promises.mkdir(directory, { recursive: true });
+                const fileName = `${sent.sentAt.getTime()}-${sentCount}.json`;
+                await fs.promises.writeFile(path.join(directory, fileName), JSON.stringify(sent, null, 2));
+            }
+        }
+    };
+};
+
+// Created on first use so MAIL_OUTBOX_DIR is read after the environment is loaded
+let transport: MailTransport | undefined;
+
+export const getMailTransport = (): MailTransport => {
+    if (!transport) {
+        transport = createOutboxTransport(process.env.MAIL_OUTBOX_DIR);
+    }
+    return transport;
+};
+
+export const setMailTransport = (nextTransport: MailTransport): void => {
+    transport = nextTransport;
+};
+
+export const sendMail = (message: MailMessage): Promise<void> => getMailTransport().send(message);
+
+// Build a link into the frontend application
+export const clientUrl = (pathname: string, params: Record<string, string> = {}): string => {
+    const url = new URL(pathname, process.env.CLIENT_URL || 'http://localhost:3000');
+    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+    return url.toString();
+};
+
+// Build a link to this API. Uses API_URL rather than the request's Host header,
+// which a client can set to anything.
+export const apiUrl = (pathname: string): string => {
+    return new URL(pathname, process.env.API_URL || `http://localhost:${process.env.PORT || 5000}`).toString();
+};
@@ -0,0 +1,88 @@
+import fs from 'fs';
+import path from 'path';
+import { sendMail } from './mail';
+
+// A message for a user, delivered by whichever notifier is configured
+export interface Notification {
+    kind: string;  // e.g. 'job-alert'
+    recipient: {
+        id: string;
+        email: string;
+    };
+    subject: string;
+    text: string;
+    data?: Record<string, unknown>;  // Structured payload for channels that render their own message
+}
+
+export interface SentNotification extends Notification {
+    sentAt: Date;
+}
+
+// Email, push, a webhook, ... can be plugged in
+export interface Notifier {
+    notify(notification: Notification): Promise<void>;
+}
+
+export interface OutboxNotifier extends Notifier {
+    notifications: SentNotification[];
+    clear(): void;
+}
+
+// Notifications the outbox keeps in memory; older ones are dropped so it does not grow forever
+const OUTBOX_LIMIT = 100;
+
+// Development/test notifier: keeps the latest notifications in memory and, when a directory
+// is given, also writes each one to a JSON file there.
+export const createOutboxNotifier = (directory?: string): OutboxNotifier => {
+    const notifications: SentNotification[] = [];
+    let sentCount = 0;
+
+    return {
+        notifications,
+        clear() {
+            notifications.length = 0;
+        },
+        async notify(notification: Notification) {
+            const sent: SentNotification = { ...notification, sentAt: new Date() };
+            sentCount++;
+            notifications.push(sent);
+            if (notifications.length > OUTBOX_LIMIT) {
+                notifications.splice(0, notifications.length - OUTBOX_LIMIT);
+            }
+
+            if (directory) {
+                await fs.promises.mkdir(directory, { recursive: true });
+                const fileName = `${sent.sentAt.getTime()}-${sentCount}-${sent.kind}.json`;
+                await fs.promises.writeFile(path.join(directory, fileName), JSON.stringify(sent, null, 2));
+            }
+        }
+    };
+};
+
+// Delivers notifications as email through the configured mail transport
+export const createMailNotifier = (): Notifier => ({
+    async notify(notification: Notification) {
+        await sendMail({
+            to: notification.recipient.email,
+            subject: notification.subject,
+            text: notification.text
+        });
+    }
+});
+
+let notifier: Notifier | undefined;
+
+export const getNotifier = (): Notifier => {
+    if (!notifier) {
+        notifier = process.env.NOTIFIER === 'mail'
+            ? createMailNotifier()
+            : createOutboxNotifier(process.env.NOTIFICATION_OUTBOX_DIR);
+    }
+    return notifier;
+};
+
+export const setNotifier = (nextNotifier: Notifier): void => {
+    notifier = nextNotifier;
+};
+
+export const notify = (notification: Notification): Promise<void> => getNotifier().notify(notification);
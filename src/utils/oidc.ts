@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import jwt from 'jsonwebtoken';
+import { OidcProviderConfig } from '../config/oidc';
+
+export interface OidcMetadata {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+}
+
+// The subset of ID token claims used to find or create an account
+export interface OidcClaims {
+    sub: string;
+    email?: string;
+    email_verified?: boolean;
+    name?: string;
+    given_name?: string;
+    family_name?: string;
+    nonce?: string;
+}
+
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384'];
+
+// Discovery documents and key sets rarely change; cache them per issuer
+const metadataCache = new Map<string, OidcMetadata>();
+const jwksCache = new Map<string, crypto.JsonWebKey[]>();
+
+export const base64Url = (buffer: Buffer): string => buffer.toString('base64url');
+
+export const randomToken = (): string => base64Url(crypto.randomBytes(32));
+
+// S256 code challenge for a PKCE code verifier
+export const codeChallengeFor = (codeVerifier: string): string =>
+    base64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+
+export const discover = async (provider: OidcProviderConfig): Promise<OidcMetadata> => {
+    const cached = metadataCache.get(provider.issuer);
+    if (cached) {
+        return cached;
+    }
+
+    const { data } = await axios.get<OidcMetadata>(`${provider.issuer}/.well-known/openid-configuration`);
+    if (data.issuer.replace(/\/$/, '') !== provider.issuer) {
+        throw new Error(`Issuer mismatch in discovery document for ${provider.name}`);
+    }
+
+    metadataCache.set(provider.issuer, data);
+    return data;
+};
+
+export const buildAuthorizationUrl = (
+    provider: OidcProviderConfig,
+    metadata: OidcMetadata,
+    params: { state: string; nonce: string; codeChallenge: string; loginHint?: string }
+): string => {
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', provider.clientId);
+    url.searchParams.set('redirect_uri', provider.redirectUri);
+    url.searchParams.set('scope', provider.scopes);
+    url.searchParams.set('state', params.state);
+    url.searchParams.set('nonce', params.nonce);
+    url.searchParams.set('code_challenge', params.codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+    if (params.loginHint) {
+        url.searchParams.set('login_hint', params.loginHint);
+    }
+    return url.toString();
+};
+
+// Trade the authorization code for tokens and return the raw ID token
+export const exchangeCode = async (
+    provider: OidcProviderConfig,
+    metadata: OidcMetadata,
+    code: string,
+    codeVerifier: string
+): Promise<string> => {
+    const body = new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: provider.redirectUri,
+        client_id: provider.clientId,
+        code_verifier: codeVerifier
+    });
+    if (provider.clientSecret) {
+        body.set('client_secret', provider.clientSecret);
+    }
+
+    const { data } = await axios.post<{ id_token?: string }>(metadata.token_endpoint, body.toString(), {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+    });
+
+    if (!data.id_token) {
+        throw new Error('Token response did not include an ID token');
+    }
+
+    return data.id_token;
+};
+
+const signingKey = async (metadata: OidcMetadata, kid: string | undefined): Promise<crypto.KeyObject> => {
+    const findKey = (keys: crypto.JsonWebKey[] | undefined) =>
+        keys?.find(key => (kid ? key.kid === kid : key.use !== 'enc'));
+
+    let key = findKey(jwksCache.get(metadata.jwks_uri));
+
+    // Unknown key ids usually mean the provider rotated its keys
+    if (!key) {
+        const { data } = await axios.get<{ keys: crypto.JsonWebKey[] }>(metadata.jwks_uri);
+        jwksCache.set(metadata.jwks_uri, data.keys);
+        key = findKey(data.keys);
+    }
+
+    if (!key) {
+        throw new Error('No matching signing key for ID token');
+    }
+
+    return crypto.createPublicKey({ key, format: 'jwk' });
+};
+
+// Check the ID token signature, issuer, audience, expiry and nonce
+export const verifyIdToken = async (
+    provider: OidcProviderConfig,
+    metadata: OidcMetadata,
+    idToken: string,
+    nonce: string
+): Promise<OidcClaims> => {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+        throw new Error('Malformed ID token');
+    }
+
+    const key = await signingKey(metadata, decoded.header.kid);
+    const claims = jwt.verify(idToken, key, {
+        algorithms: ID_TOKEN_ALGORITHMS,
+        issuer: metadata.issuer,
+        audience: provider.clientId
+    }) as OidcClaims;
+
+    if (claims.nonce !== nonce) {
+        throw new Error('ID token nonce does not match');
+    }
+
+    return claims;
+};
@@ -0,0 +1,144 @@
+import mongoose from 'mongoose';
+
+// Opaque-cursor (keyset) pagination. Instead of skipping N documents, the next page
+// starts right after the last document of the previous one, so deep pages stay fast
+// and do not shift when new documents are inserted.
+//
+// A listing opts in with ?pagination=cursor for the first page and then passes back
+// the nextCursor it received as ?cursor=. Every field in the sort must be present on
+// all listed documents; _id is appended as a tie-breaker.
+
+export type SortSpec = Record<string, 1 | -1>;
+
+export interface CursorRequest {
+    after: unknown[] | null;  // Sort values of the last document already seen
+    limit: number;
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+
+type EncodedValue = string | number | boolean | { $date: string } | { $oid: string };
+
+export const withTiebreaker = (sort: SortSpec): SortSpec => {
+    if ('_id' in sort) {
+        return sort;
+    }
+    const directions = Object.values(sort);
+    return { ...sort, _id: directions[directions.length - 1] ?? 1 };
+};
+
+const sortSignature = (sort: SortSpec): string =>
+    Object.entries(sort).map(([field, direction]) => `${field}:${direction}`).join(',');
+
+const encodeValue = (value: unknown): EncodedValue => {
+    if (value instanceof Date) {
+        return { $date: value.toISOString() };
+    }
+    if (value instanceof mongoose.Types.ObjectId) {
+        return { $oid: value.toHexString() };
+    }
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        return value;
+    }
+    throw new Error(`Cannot build a cursor from a ${typeof value} sort value`);
+};
+
+// Only plain values come back out of a cursor, so it cannot smuggle query operators in
+const decodeValue = (value: unknown): unknown => {
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        return value;
+    }
+    if (value && typeof value === 'object') {
+        const { $date, $oid } = value as Record<string, unknown>;
+        if (typeof $date === 'string' && !isNaN(Date.parse($date))) {
+            return new Date($date);
+        }
+        if (typeof $oid === 'string' && mongoose.Types.ObjectId.isValid($oid)) {
+            return new mongoose.Types.ObjectId($oid);
+        }
+    }
+    throw new Error('Invalid cursor value');
+};
+
+export const encodeCursor = (sort: SortSpec, values: unknown[]): string =>
+    Buffer.from(JSON.stringify({ s: sortSignature(sort), v: values.map(encodeValue) })).toString('base64url');
+
+const decodeCursor = (token: string, sort: SortSpec): unknown[] | null => {
+    try {
+        const { s, v } = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+        if (s !== sortSignature(sort) || !Array.isArray(v) || v.length !== Object.keys(sort).length) {
+            return null;
+        }
+        return v.map(decodeValue);
+    } catch {
+        return null;
+    }
+};
+
+// Read ?pagination=cursor / ?cursor= for a listing sorted by `sort` (including its tie-breaker).
+// Returns no cursor when the client uses page numbers.
+export const parseCursor = (
+    query: Record<string, unknown>,
+    sort: SortSpec
+): { cursor?: CursorRequest; error?: string } => {
+    const token = query.cursor;
+    if (token === undefined && query.pagination !== 'cursor') {
+        return {};
+    }
+    if (query.page !== undefined) {
+        return { error: 'Use either page or cursor pagination, not both' };
+    }
+
+    const limit = Math.min(parseInt(query.limit as string) || DEFAULT_LIMIT, MAX_LIMIT);
+    if (limit < 1) {
+        return { error: 'limit must be a positive number' };
+    }
+
+    if (token === undefined || token === '') {
+        return { cursor: { after: null, limit } };
+    }
+
+    const after = typeof token === 'string' ? decodeCursor(token, sort) : null;
+    if (!after) {
+        return { error: 'Invalid cursor for this listing' };
+    }
+    return { cursor: { after, limit } };
+};
+
+// Restrict `filter` to documents that come after the cursor in `sort` order
+export const afterCursor = (filter: Record<string, any>, sort: SortSpec, after: unknown[] | null): Record<string, any> => {
+    if (!after) {
+        return filter;
+    }
+
+    const fields = Object.keys(sort);
+    const branches = fields.map((field, index) => {
+        const branch: Record<string, any> = {};
+        fields.slice(0, index).forEach((previous, i) => {
+            branch[previous] = after[i];
+        });
+        branch[field] = { [sort[field] === 1 ? '$gt' : '$lt']: after[index] };
+        return branch;
+    });
+
+    return { $and: [filter, { $or: branches }] };
+};
+
+const valueAt = (doc: any, path: string): unknown =>
+    typeof doc.get === 'function' ? doc.get(path) : path.split('.').reduce((value, key) => value?.[key], doc);
+
+// Trim the extra document fetched to detect a next page and build the cursor for it.
+// Query with .limit(limit + 1).
+export const cursorPage = <T>(docs: T[], sort: SortSpec, limit: number): { items: T[]; nextCursor: string | null } => {
+    if (docs.length <= limit) {
+        return { items: docs, nextCursor: null };
+    }
+
+    const items = docs.slice(0, limit);
+    const last = items[items.length - 1];
+    return {
+        items,
+        nextCursor: encodeCursor(sort, Object.keys(sort).map(field => valueAt(last, field)))
+    };
+};
@@ -0,0 +1,29 @@
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 128;
+
+// Check a new password against the password policy. Returns the list of broken rules.
+export const validatePassword = (password: unknown): string[] => {
+    if (typeof password !== 'string') {
+        return ['Password must be a string'];
+    }
+
+    const errors: string[] = [];
+
+    if (password.length < PASSWORD_MIN_LENGTH) {
+        errors.push(`Password must be at least ${PASSWORD_MIN_LENGTH} characters long`);
+    }
+    if (password.length > PASSWORD_MAX_LENGTH) {
+        errors.push(`Password must be at most ${PASSWORD_MAX_LENGTH} characters long`);
+    }
+    if (!/[a-zA-Z]/.test(password)) {
+        errors.push('Password must contain at least one letter');
+    }
+    if (!/[0-9]/.test(password)) {
+        errors.push('Password must contain at least one number');
+    }
+    if (password.trim() !== password) {
+        errors.push('Password must not start or end with whitespace');
+    }
+
+    return errors;
+};
@@ -0,0 +1,2 @@
+// Escape user input so it can be used literally inside a RegExp / $regex
+export const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
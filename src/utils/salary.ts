@@ -0,0 +1,68 @@
+import { getExchangeRates } from '../config/exchangeRates';
+
+export const SALARY_PERIODS = ['hourly', 'monthly', 'yearly'] as const;
+export type SalaryPeriod = typeof SALARY_PERIODS[number];
+
+// Full-time equivalents used to annualize pay
+const PERIODS_PER_YEAR: Record<SalaryPeriod, number> = {
+    hourly: 2080,
+    monthly: 12,
+    yearly: 1
+};
+
+export interface NormalizedSalary {
+    min?: number;
+    max?: number;
+    ratesVersion: string;
+}
+
+export const isSupportedCurrency = (currency: unknown): boolean =>
+    typeof currency === 'string' && getExchangeRates().rates[currency.toUpperCase()] !== undefined;
+
+// Convert an amount to a yearly figure in the base currency
+export const toYearlyBase = (amount: number, currency: string = getExchangeRates().baseCurrency, period: SalaryPeriod = 'yearly'): number =>
+    Math.round(amount * getExchangeRates().rates[currency.toUpperCase()] * PERIODS_PER_YEAR[period]);
+
+// Yearly base-currency range of a posted salary. A single bound stands in for the other.
+export const normalizeSalary = (salary: any): NormalizedSalary | undefined => {
+    const { baseCurrency, version } = getExchangeRates();
+    if (!salary || (salary.min == null && salary.max == null) || !isSupportedCurrency(salary.currency || baseCurrency)) {
+        return undefined;
+    }
+
+    const currency = salary.currency || baseCurrency;
+    const period: SalaryPeriod = salary.period || 'yearly';
+    const min = salary.min ?? salary.max;
+    const max = salary.max ?? salary.min;
+
+    return {
+        min: toYearlyBase(min, currency, period),
+        max: toYearlyBase(max, currency, period),
+        ratesVersion: version
+    };
+};
+
+// Validate a salary from a request body. Returns an error message or null.
+export const salaryError = (salary: any): string | null => {
+    if (salary === undefined || salary === null) {
+        return null;
+    }
+    if (typeof salary !== 'object') {
+        return 'salary must be an object with min, max, currency and period';
+    }
+
+    const { min, max, currency, period } = salary;
+    if ((min != null && !(Number(min) >= 0)) || (max != null && !(Number(max) >= 0))) {
+        return 'Salary amounts must be positive numbers';
+    }
+    if (min != null && max != null && Number(min) > Number(max)) {
+        return 'Salary min cannot be greater than max';
+    }
+    if (currency !== undefined && !isSupportedCurrency(currency)) {
+        return `Unsupported currency. Supported: ${Object.keys(getExchangeRates().rates).join(', ')}`;
+    }
+    if (period !== undefined && !SALARY_PERIODS.includes(period)) {
+        return `Salary period must be one of: ${SALARY_PERIODS.join(', ')}`;
+    }
+    return null;
+};
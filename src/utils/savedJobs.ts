@@ -0,0 +1,29 @@
+import { IJob } from '../models/Job';
+import SavedJob from '../models/SavedJob';
+import { UserPrincipal } from '../policies';
+
+// Add a `saved` flag to jobs shown to a signed-in user. Anonymous requests get the jobs unchanged.
+export const withSavedFlag = async (jobs: IJob[], user?: UserPrincipal): Promise<(IJob | Record<string, unknown>)[]> => {
+    if (!user || jobs.length === 0) {
+        return jobs;
+    }
+
+    const saved = await SavedJob.find({ user: user.id, job: { $in: jobs.map(job => job._id) } }).select('job').lean();
+    const savedIds = new Set(saved.map(entry => entry.job.toString()));
+
+    return jobs.map(job => ({ ...job.toJSON(), saved: savedIds.has(job.id) }));
+};
+
+// Why a saved job can no longer be applied to, or null while it is open
+export const unavailableReason = (job: IJob | null, now: Date = new Date()): 'deleted' | 'closed' | 'expired' | null => {
+    if (!job) {
+        return 'deleted';
+    }
+    if (job.status !== 'active') {
+        return 'closed';
+    }
+    if (job.deadline && job.deadline <= now) {
+        return 'expired';
+    }
+    return null;
+};
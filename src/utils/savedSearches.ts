@@ -0,0 +1,94 @@
+import { AlertFrequency } from '../models/SavedSearch';
+import { IJob } from '../models/Job';
+import { ICompany } from '../models/Company';
+import { parseJobQuery, JobQuery } from './jobQuery';
+import { clientUrl } from './mail';
+
+// The getJobs/searchJobs parameters that describe which jobs to look for. Paging,
+// sorting and cursors only matter for a listing, so they are not saved.
+export const SEARCH_CRITERIA = [
+    'q', 'title', 'location', 'type', 'skills', 'skillsMatch', 'company',
+    'currency', 'salaryMin', 'salaryMax', 'salaryPeriod', 'lat', 'lng', 'radius'
+];
+
+const FREQUENCY_MS: Record<AlertFrequency, number> = {
+    instant: 0,  // Every scheduler run
+    daily: 24 * 60 * 60 * 1000,
+    weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+export const nextRunAfter = (frequency: AlertFrequency, from: Date): Date =>
+    new Date(from.getTime() + FREQUENCY_MS[frequency]);
+
+// Validate the criteria of a saved search. Values may be strings or numbers and are
+// stored as strings, the way they arrive in a query string.
+export const parseSearchCriteria = (input: unknown): { criteria?: Record<string, string>; errors: string[] } => {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        return { errors: ['criteria must be an object of search parameters'] };
+    }
+
+    const errors: string[] = [];
+    const criteria: Record<string, string> = {};
+
+    Object.entries(input).forEach(([key, value]) => {
+        if (!SEARCH_CRITERIA.includes(key)) {
+            errors.push(`Unknown search parameter ${key}. Allowed parameters: ${SEARCH_CRITERIA.join(', ')}`);
+        } else if (typeof value === 'string' || typeof value === 'number') {
+            const text = String(value).trim();
+            if (text !== '') {
+                criteria[key] = text;
+            }
+        } else if (value !== null && value !== undefined) {
+            errors.push(`${key} must be a string or a number`);
+        }
+    });
+
+    if (errors.length === 0 && Object.keys(criteria).length === 0) {
+        errors.push('At least one search parameter is required');
+    }
+    if (errors.length > 0) {
+        return { errors };
+    }
+
+    // Same checks as a live search
+    const { errors: queryErrors } = parseJobQuery(criteria, { strict: true });
+    if (queryErrors.length > 0) {
+        return { errors: queryErrors };
+    }
+
+    return { criteria, errors };
+};
+
+// Query for the jobs matching a saved search that were posted in (since, until]
+export const newJobsQuery = (criteria: Record<string, string>, since: Date, until: Date): JobQuery | undefined => {
+    const { query } = parseJobQuery(criteria, { strict: true });
+    if (!query) {
+        return undefined;
+    }
+    query.filter.postedAt = { $gt: since, $lte: until };
+    // Digests list the newest jobs first, even for text searches
+    query.sort = { postedAt: -1, _id: -1 };
+    query.projection = undefined;
+    return query;
+};
+
+type DigestJob = Omit<IJob, 'company'> & { company: ICompany | null };
+
+// Plain-text digest listing the new jobs, with a link to the full search
+export const digestText = (
+    firstName: string,
+    searchName: string,
+    criteria: Record<string, string>,
+    jobs: DigestJob[],
+    total: number
+): string => {
+    const lines = jobs.map(job => {
+        const company = job.company?.companyName ? ` at ${job.company.companyName}` : '';
+        return `- ${job.title}${company} (${job.location}, ${job.type})\n  ${clientUrl(`/jobs/${job.id}`)}`;
+    });
+    const more = total > jobs.length ? `\n\n...and ${total - jobs.length} more.` : '';
+
+    return `Hi ${firstName},\n\n${total === 1 ? 'A new job matches' : `${total} new jobs match`} ` +
+        `your saved search "${searchName}":\n\n${lines.join('\n')}${more}\n\n` +
+        `See all results: ${clientUrl('/jobs', criteria)}`;
+};
@@ -0,0 +1,95 @@
+import jwt from 'jsonwebtoken';
+
+// Keys used to sign and verify our own JWTs (access tokens, 2FA challenges).
+//
+// JWT_KEYS holds "kid:secret" pairs separated by commas. The first key signs new tokens,
+// the others are only used to verify tokens signed before a rotation. To rotate, put a new
+// key in front and drop the old one once every access token it signed has expired.
+// A single JWT_SECRET is still accepted and gets the key id "primary".
+
+export interface SigningKey {
+    kid: string;
+    secret: string;
+}
+
+const MIN_SECRET_LENGTH = 32;
+const KNOWN_WEAK_SECRETS = ['defaultsecret', 'secret', 'changeme', 'jwtsecret'];
+const ALGORITHM: jwt.Algorithm = 'HS256';
+
+// Validate the configured keys. Throws so the server refuses to start with a weak setup.
+export const parseSigningKeys = (env: NodeJS.ProcessEnv = process.env): SigningKey[] => {
+    let keys: SigningKey[];
+
+    if (env.JWT_KEYS) {
+        keys = env.JWT_KEYS.split(',').map(entry => {
+            const separator = entry.indexOf(':');
+            if (separator <= 0) {
+                throw new Error('JWT_KEYS entries must look like "kid:secret"');
+            }
+            return { kid: entry.slice(0, separator).trim(), secret: entry.slice(separator + 1).trim() };
+        });
+    } else if (env.JWT_SECRET) {
+        keys = [{ kid: 'primary', secret: env.JWT_SECRET }];
+    } else {
+        throw new Error('Set JWT_KEYS (or JWT_SECRET) to sign tokens');
+    }
+
+    const seen = new Set<string>();
+    keys.forEach(({ kid, secret }) => {
+        if (!/^[A-Za-z0-9._-]+$/.test(kid)) {
+            throw new Error(`Invalid JWT key id "${kid}"`);
+        }
+        if (seen.has(kid)) {
+            throw new Error(`Duplicate JWT key id "${kid}"`);
+        }
+        seen.add(kid);
+
+        if (secret.length < MIN_SECRET_LENGTH || KNOWN_WEAK_SECRETS.includes(secret.toLowerCase())) {
+            throw new Error(`JWT key "${kid}" must be a random secret of at least ${MIN_SECRET_LENGTH} characters`);
+        }
+    });
+
+    return keys;
+};
+
+let keyring: SigningKey[] | null = null;
+
+// Load and check the keys at startup. Later calls pick up changed environment variables.
+export const initSigningKeys = (): SigningKey[] => {
+    keyring = parseSigningKeys();
+    return keyring;
+};
+
+const getKeys = (): SigningKey[] => keyring || initSigningKeys();
+
+export const signJwt = (payload: object, options: jwt.SignOptions = {}): string => {
+    const [active] = getKeys();
+    return jwt.sign(payload, active.secret, { ...options, algorithm: ALGORITHM, keyid: active.kid });
+};
+
+// Verify against the key named in the token header. Tokens from before key ids
+// existed have no kid and are tried against every key.
+export const verifyJwt = (token: string): jwt.JwtPayload => {
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded) {
+        throw new jwt.JsonWebTokenError('jwt malformed');
+    }
+
+    const keys = getKeys();
+    const { kid } = decoded.header;
+    const candidates = kid ? keys.filter(key => key.kid === kid) : keys;
+
+    if (candidates.length === 0) {
+        throw new jwt.JsonWebTokenError('unknown signing key');
+    }
+
+    let lastError: unknown;
+    for (const key of candidates) {
+        try {
+            return jwt.verify(token, key.secret, { algorithms: [ALGORITHM] }) as jwt.JwtPayload;
+        } catch (error) {
+            lastError = error;
+        }
+    }
+    throw lastError;
+};
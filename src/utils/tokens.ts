@@ -0,0 +1,227 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import Session, { ISession } from '../models/Session';
+import { signJwt, verifyJwt } from './signingKeys';
+
+export type AccountType = ISession['accountType'];
+
+export interface SessionOptions {
+    // Extra claims carried by company sessions
+    memberId?: mongoose.Types.ObjectId | string;
+    role?: ISession['role'];
+    // The device the session was started from
+    userAgent?: string;
+    ip?: string;
+}
+
+// Only refresh lastUsedAt this often to avoid a write on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export const ACCESS_TOKEN_TTL = '15m';
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+export const TWO_FACTOR_CHALLENGE_TTL = '5m';
+
+export interface IssuedTokens {
+    token: string;
+    refreshToken: string;
+    expiresIn: string;
+}
+
+export const hashToken = (token: string): string =>
+    crypto.createHash('sha256').update(token).digest('hex');
+
+const generateRefreshToken = (): string => crypto.randomBytes(48).toString('hex');
+
+const refreshExpiry = (): Date =>
+    new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+// Device details recorded on a session
+export const sessionClient = (req: Request): Pick<SessionOptions, 'userAgent' | 'ip'> => ({
+    userAgent: req.get('User-Agent'),
+    ip: req.ip
+});
+
+// Sign a short-lived access token bound to a session
+export const signAccessToken = (session: ISession): string => {
+    return signJwt(
+        {
+            id: session.accountId.toString(),
+            isCompany: session.accountType === 'Company',
+            ...(session.accountType === 'Admin' && { isAdmin: true }),
+            sid: session._id!.toString(),
+            ...(session.memberId && { memberId: session.memberId.toString() }),
+            ...(session.role && { role: session.role })
+        },
+        { expiresIn: ACCESS_TOKEN_TTL }
+    );
+};
+
+export interface TwoFactorChallenge {
+    id: string;
+    accountType: 'User' | 'Company' | 'CompanyMember';
+    issuedAt?: number;  // Milliseconds; set when signed, used to accept each challenge once
+}
+
+// Issued by login when a second factor is still needed. It has no session, so the
+// auth middlewares never accept it as an access token.
+export const signTwoFactorChallenge = (challenge: TwoFactorChallenge): string => {
+    return signJwt(
+        { ...challenge, issuedAt: Date.now(), purpose: '2fa' },
+        { expiresIn: TWO_FACTOR_CHALLENGE_TTL }
+    );
+};
+
+export const verifyTwoFactorChallenge = (token: string): TwoFactorChallenge | null => {
+    try {
+        const decoded = verifyJwt(token);
+        if (decoded.purpose !== '2fa' || typeof decoded.issuedAt !== 'number') {
+            return null;
+        }
+        return { id: decoded.id, accountType: decoded.accountType, issuedAt: decoded.issuedAt };
+    } catch (error) {
+        return null;
+    }
+};
+
+// Start a new session for an account and return its first token pair
+export const createSession = async (
+    accountId: mongoose.Types.ObjectId | string,
+    accountType: AccountType,
+    options: SessionOptions = {}
+): Promise<IssuedTokens> => {
+    const refreshToken = generateRefreshToken();
+
+    const session = new Session({
+        accountId,
+        accountType,
+        memberId: options.memberId,
+        role: options.role,
+        userAgent: options.userAgent,
+        ip: options.ip,
+        refreshTokenHash: hashToken(refreshToken),
+        expiresAt: refreshExpiry()
+    });
+
+    await session.save();
+
+    return {
+        token: signAccessToken(session),
+        refreshToken,
+        expiresIn: ACCESS_TOKEN_TTL
+    };
+};
+
+// Exchange a refresh token for a new token pair. The presented refresh token
+// is invalidated; presenting an already rotated token revokes the whole session.
+export const rotateSession = async (
+    refreshToken: string,
+    accountType: AccountType,
+    client: Pick<SessionOptions, 'userAgent' | 'ip'> = {}
+): Promise<IssuedTokens | null> => {
+    const tokenHash = hashToken(refreshToken);
+    const nextRefreshToken = generateRefreshToken();
+    const now = new Date();
+
+    // Swap the token in one atomic update keyed on the old hash, so two concurrent
+    // refreshes with the same token cannot both succeed
+    const session = await Session.findOneAndUpdate(
+        { refreshTokenHash: tokenHash, accountType, revokedAt: { $exists: false }, expiresAt: { $gt: now } },
+        {
+            $set: {
+                previousRefreshTokenHash: tokenHash,
+                refreshTokenHash: hashToken(nextRefreshToken),
+                expiresAt: refreshExpiry(),
+                lastUsedAt: now,
+                ...(client.userAgent && { userAgent: client.userAgent }),
+                ...(client.ip && { ip: client.ip })
+            }
+        },
+        { new: true }
+    );
+
+    if (!session) {
+        // An already rotated token: someone else has it, so end the session
+        await Session.updateOne(
+            { previousRefreshTokenHash: tokenHash, accountType, revokedAt: { $exists: false } },
+            { $set: { revokedAt: now } }
+        );
+        return null;
+    }
+
+    return {
+        token: signAccessToken(session),
+        refreshToken: nextRefreshToken,
+        expiresIn: ACCESS_TOKEN_TTL
+    };
+};
+
+// Revoke the session that owns the given refresh token
+export const revokeSessionByRefreshToken = async (
+    refreshToken: string,
+    accountType: AccountType
+): Promise<boolean> => {
+    const result = await Session.updateOne(
+        { refreshTokenHash: hashToken(refreshToken), accountType, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date() } }
+    );
+    return result.modifiedCount > 0;
+};
+
+// Revoke a session by id (used when logging out with an access token)
+export const revokeSessionById = async (sessionId: string): Promise<boolean> => {
+    const result = await Session.updateOne(
+        { _id: sessionId, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date() } }
+    );
+    return result.modifiedCount > 0;
+};
+
+// Revoke every active session of an account
+export const revokeAllSessions = async (
+    accountId: mongoose.Types.ObjectId | string,
+    accountType: AccountType
+): Promise<number> => {
+    const result = await Session.updateMany(
+        { accountId, accountType, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date() } }
+    );
+    return result.modifiedCount;
+};
+
+// Revoke the company owner's own sessions, leaving team members signed in
+export const revokeOwnerSessions = async (companyId: mongoose.Types.ObjectId | string): Promise<number> => {
+    const result = await Session.updateMany(
+        { accountId: companyId, accountType: 'Company', memberId: { $exists: false }, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date() } }
+    );
+    return result.modifiedCount;
+};
+
+// Revoke every active session of a company member
+export const revokeMemberSessions = async (memberId: mongoose.Types.ObjectId | string): Promise<number> => {
+    const result = await Session.updateMany(
+        { memberId, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date() } }
+    );
+    return result.modifiedCount;
+};
+
+// Check that the session referenced by an access token is still valid,
+// and record that it was just used
+export const touchSession = async (sessionId: string): Promise<boolean> => {
+    if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+        return false;
+    }
+
+    const session = await Session.findById(sessionId).select('revokedAt expiresAt lastUsedAt').lean();
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+        return false;
+    }
+
+    if (!session.lastUsedAt || Date.now() - session.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+        await Session.updateOne({ _id: sessionId }, { $set: { lastUsedAt: new Date() } });
+    }
+
+    return true;
+};
@@ -0,0 +1,110 @@
+import crypto from 'crypto';
+
+// RFC 6238 time-based one-time passwords (the codes shown by authenticator apps)
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TIME_STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+
+export const base32Encode = (buffer: Buffer): string => {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+};
+
+export const base32Decode = (input: string): Buffer => {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error('Invalid base32 character');
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+
+    return Buffer.from(bytes);
+};
+
+export const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(20));
+
+export const generateTotp = (secret: string, timestamp: number = Date.now()): string => {
+    const counter = totpTimeStep(timestamp);
+    const counterBuffer = Buffer.alloc(8);
+    counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+    const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = ((hmac[offset] & 0x7f) << 24) |
+        (hmac[offset + 1] << 16) |
+        (hmac[offset + 2] << 8) |
+        hmac[offset + 3];
+
+    return String(binary % 10 ** CODE_DIGITS).padStart(CODE_DIGITS, '0');
+};
+
+export const totpTimeStep = (timestamp: number = Date.now()): number =>
+    Math.floor(timestamp / 1000 / TIME_STEP_SECONDS);
+
+// Accept the current code and the ones right before/after it to allow for clock drift.
+// Returns the time step the code belongs to, or null if it does not match.
+export const matchTotp = (secret: string, code: unknown, window: number = 1): number | null => {
+    if (typeof code !== 'string' && typeof code !== 'number') {
+        return null;
+    }
+
+    const normalized = String(code).replace(/\s/g, '');
+    if (!/^\d{6}$/.test(normalized)) {
+        return null;
+    }
+
+    const now = Date.now();
+    for (let step = -window; step <= window; step++) {
+        const timestamp = now + step * TIME_STEP_SECONDS * 1000;
+        const candidate = generateTotp(secret, timestamp);
+        if (crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(normalized))) {
+            return totpTimeStep(timestamp);
+        }
+    }
+
+    return null;
+};
+
+export const verifyTotp = (secret: string, code: unknown, window: number = 1): boolean =>
+    matchTotp(secret, code, window) !== null;
+
+// otpauth:// URI that authenticator apps read from a QR code
+export const totpProvisioningUri = (secret: string, accountName: string, issuer: string): string => {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: 'SHA1',
+        digits: String(CODE_DIGITS),
+        period: String(TIME_STEP_SECONDS)
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+};
@@ -0,0 +1,31 @@
+// Small helpers for writing XML by hand
+
+// Characters not allowed in XML 1.0 at all (control characters other than tab and line breaks)
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+export const escapeXml = (value: unknown): string =>
+    String(value ?? '')
+        .replace(INVALID_XML_CHARS, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+
+// Element with escaped text content. Empty values produce nothing.
+export const element = (name: string, value: unknown, attributes: Record<string, string> = {}): string => {
+    if (value === undefined || value === null || value === '') {
+        return '';
+    }
+    const attrs = Object.entries(attributes).map(([key, attr]) => ` ${key}="${escapeXml(attr)}"`).join('');
+    return `<${name}${attrs}>${escapeXml(value)}</${name}>`;
+};
+
+// Element wrapping its text in CDATA, as job feed consumers expect for free text
+export const cdataElement = (name: string, value: unknown): string => {
+    if (value === undefined || value === null || value === '') {
+        return '';
+    }
+    const text = String(value).replace(INVALID_XML_CHARS, '').replace(/]]>/g, ']]]]><![CDATA[>');
+    return `<${name}><![CDATA[${text}]]></${name}>`;
+};